@@ -1,62 +1,191 @@
 import { Page } from 'puppeteer';
 import { getPage } from './browser';
-import { AddToCartParams, CartItem, SearchResult, OperationResult } from './types';
-import { saveAmazonSession } from './session-manager';
+import {
+  AddToCartInterstitial,
+  AddToCartInterstitialType,
+  AddToCartParams,
+  AddToCartResult,
+  CartContents,
+  CartItem,
+  ProductDetails,
+  SearchParams,
+  SearchResult,
+  SearchSort,
+  OperationResult,
+  ProductVariation,
+  VariationOption,
+} from './types';
+import { getAccountStatus, saveAmazonSession } from './session-manager';
+import { SelectorField, findSelector, requireElement, requireSelector, selectorMap, selectorsFor } from './selectors';
+import { currentProfile } from './profiles';
+import { recordPrices } from './price-history';
+import { fractionDigits, multiplyMoney, parseMoney, sameAmount, toMoney } from './money';
+import { rememberProduct, rememberSearch } from './resources';
+import { checkPage, errorCode, navigate } from './page-guard';
 
-const AMAZON_DOMAIN = process.env.AMAZON_DOMAIN || 'amazon.com';
-const BASE_URL = `https://www.${AMAZON_DOMAIN}`;
+/**
+ * Marketplace root for the current profile. AMAZON_BASE_URL points the default
+ * profile at another host, e.g. the offline fixture server in test/
+ */
+export function baseUrl(): string {
+  return currentProfile().baseUrl;
+}
 
-async function waitForElement(page: Page, selector: string, timeout = 5000): Promise<boolean> {
-  try {
-    await page.waitForSelector(selector, { timeout });
-    return true;
-  } catch {
-    return false;
+const SORT_PARAMS: Record<SearchSort, string | null> = {
+  relevance: null,
+  price_asc: 'price-asc-rank',
+  price_desc: 'price-desc-rank',
+  rating: 'review-rank',
+  newest: 'date-desc-rank',
+};
+
+const DEFAULT_SEARCH_LIMIT = 5;
+const MAX_SEARCH_LIMIT = 50;
+
+/**
+ * Build a search results URL from query and filter parameters
+ */
+export function buildSearchUrl(params: SearchParams): string {
+  const url = new URL(`${baseUrl()}/s`);
+  url.searchParams.set('k', params.query);
+
+  if (params.department) {
+    url.searchParams.set('i', params.department);
+  }
+
+  const sort = params.sort ? SORT_PARAMS[params.sort] : null;
+  if (sort) {
+    url.searchParams.set('s', sort);
+  }
+
+  if (params.page && params.page > 1) {
+    url.searchParams.set('page', String(params.page));
+  }
+
+  // Price refinement (p_36) is expressed in the marketplace's minor currency unit (cents, but whole yen)
+  if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+    const scale = 10 ** fractionDigits(currentProfile().currency);
+    const min = params.minPrice !== undefined ? Math.round(params.minPrice * scale) : '';
+    const max = params.maxPrice !== undefined ? Math.round(params.maxPrice * scale) : '';
+    url.searchParams.set('rh', `p_36:${min}-${max}`);
+  }
+
+  return url.toString();
+}
+
+/**
+ * Star rating from text such as "4.5 out of 5 stars", "4,5 von 5 Sternen" or
+ * "5つ星のうち4.5", whichever side of the scale the rating is on
+ */
+export function parseRating(text: string | undefined): number | null {
+  const numbers = (text?.match(/\d+(?:[.,]\d+)?/g) || []).map(n => parseFloat(n.replace(',', '.')));
+  // Drop the "out of 5" scale; the rating is what's left
+  const scale = numbers.length > 1 ? numbers.indexOf(5) : -1;
+  if (scale !== -1) {
+    numbers.splice(scale, 1);
   }
+  return numbers.length > 0 && numbers[0] <= 5 ? numbers[0] : null;
 }
 
-export async function searchProducts(query: string): Promise<OperationResult> {
+/**
+ * Load a search results page and wait for results.
+ * Returns the selector that matched search result items.
+ */
+async function submitSearch(page: Page, params: SearchParams): Promise<string> {
+  await navigate(page, buildSearchUrl(params));
+
+  return requireSelector(page, 'search.result', { timeout: 30000, context: `for "${params.query}"` });
+}
+
+export async function searchProducts(params: SearchParams): Promise<OperationResult> {
   try {
-    const page = await getPage();
+    if (!params?.query) {
+      throw new Error('Search query is required');
+    }
 
-    await page.goto(BASE_URL, { waitUntil: 'networkidle2' });
+    const limit = Math.min(Math.max(params.limit || DEFAULT_SEARCH_LIMIT, 1), MAX_SEARCH_LIMIT);
+    const page = await getPage();
 
     // Search for product
-    await page.waitForSelector('#twotabsearchtextbox');
-    await page.type('#twotabsearchtextbox', query);
-    await page.click('#nav-search-submit-button');
-
-    await page.waitForSelector('[data-component-type="s-search-result"]');
+    const resultSelector = await submitSearch(page, params);
 
     // Extract search results
-    const results = await page.evaluate(() => {
-      const items = Array.from(document.querySelectorAll('[data-component-type="s-search-result"]')) as Element[];
-      return items.slice(0, 5).map((item: Element) => {
-        const titleEl = item.querySelector('h2 a span');
-        const priceWhole = item.querySelector('.a-price-whole');
-        const priceFraction = item.querySelector('.a-price-fraction');
-        const ratingEl = item.querySelector('.a-icon-star-small span');
-        const imageEl = item.querySelector('img.s-image');
+    const fields = selectorMap([
+      'search.title',
+      'search.price',
+      'search.priceSymbol',
+      'search.priceWhole',
+      'search.priceFraction',
+      'search.listPrice',
+      'search.rating',
+      'search.reviewCount',
+      'search.primeBadge',
+      'search.sponsored',
+      'search.image',
+    ]);
+    const scraped = await page.evaluate((resultSelector: string, fields: Record<string, string[]>) => {
+      const pick = (root: ParentNode, chain: string[]): Element | null => {
+        for (const selector of chain) {
+          const el = root.querySelector(selector);
+          if (el) return el;
+        }
+        return null;
+      };
+
+      const items = Array.from(document.querySelectorAll(resultSelector)) as Element[];
+      return items.map((item: Element) => {
+        const titleEl = pick(item, fields['search.title']);
+        const priceEl = pick(item, fields['search.price']);
+        const priceSymbol = pick(item, fields['search.priceSymbol']);
+        const priceWhole = pick(item, fields['search.priceWhole']);
+        const priceFraction = pick(item, fields['search.priceFraction']);
+        const listPriceEl = pick(item, fields['search.listPrice']);
+        const ratingEl = pick(item, fields['search.rating']);
+        const reviewCountEl = pick(item, fields['search.reviewCount']);
+        const imageEl = pick(item, fields['search.image']);
         const asinAttr = item.getAttribute('data-asin');
+        const sponsoredEl = pick(item, fields['search.sponsored']);
 
         return {
           title: titleEl?.textContent?.trim() || 'Unknown',
-          price: priceWhole && priceFraction
-            ? `$${priceWhole.textContent}${priceFraction.textContent}`
-            : 'Price not available',
+          // The whole part includes the marketplace's decimal mark ("14." or "14,")
+          price: priceEl?.textContent?.trim()
+            || (priceWhole && priceFraction
+              ? `${priceSymbol?.textContent || ''}${priceWhole.textContent}${priceFraction.textContent}`
+              : ''),
+          listPrice: listPriceEl?.textContent?.trim() || undefined,
           rating: ratingEl?.textContent?.trim() || 'No rating',
+          // aria-label has the exact count ("48,213 ratings"); visible text may be abbreviated ("48.2K")
+          reviewCount: parseInt((reviewCountEl?.getAttribute('aria-label') || reviewCountEl?.textContent || '')
+            .replace(/[^0-9]/g, ''), 10) || 0,
+          isPrime: !!pick(item, fields['search.primeBadge']),
+          isSponsored: item.classList.contains('AdHolder') || /sponsored/i.test(sponsoredEl?.textContent || ''),
           imageUrl: imageEl?.getAttribute('src') || '',
           asin: asinAttr || '',
         };
       });
-    });
+    }, resultSelector, fields);
+    const allResults: SearchResult[] = scraped.map(result => ({
+      ...result,
+      price: parseMoney(result.price),
+      listPrice: parseMoney(result.listPrice) || undefined,
+    }));
+    recordPrices('search', allResults);
+
+    // Prime and rating filters are applied to the scraped results, since the
+    // matching URL refinements differ per marketplace
+    const results = allResults
+      .filter(result => !params.primeOnly || result.isPrime)
+      .filter(result => !params.minRating || (parseRating(result.rating) || 0) >= params.minRating)
+      .slice(0, limit);
+    rememberSearch(params.query, results);
 
     // Auto-save session after successful search (captures any new cookies)
     await saveAmazonSession(page).catch(() => {});
 
     return {
       success: true,
-      message: `Found ${results.length} products`,
+      message: `Found ${results.length} products (page ${params.page || 1})`,
       data: results,
     };
   } catch (error) {
@@ -64,154 +193,935 @@ export async function searchProducts(query: string): Promise<OperationResult> {
       success: false,
       message: 'Failed to search products',
       error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+/**
+ * Scrape the currently loaded product detail page into a structured record
+ */
+async function extractProductDetails(page: Page, asin: string): Promise<ProductDetails> {
+  const fields = selectorMap([
+    'product.title',
+    'product.price',
+    'product.listPrice',
+    'product.discount',
+    'product.availability',
+    'product.addToCart',
+    'product.seller',
+    'product.fulfilledBy',
+    'product.merchantInfo',
+    'product.primeBadge',
+    'product.deliveryEstimate',
+    'product.bulletPoint',
+    'product.breadcrumb',
+    'product.twisterRow',
+    'product.rating',
+    'product.reviewCount',
+    'product.mainImage',
+    'product.thumbnail',
+  ]);
+
+  const details = await page.evaluate((fields: Record<string, string[]>) => {
+    const pick = (chain: string[]): Element | null => {
+      for (const selector of chain) {
+        const el = document.querySelector(selector);
+        if (el) return el;
+      }
+      return null;
+    };
+    const pickAll = (chain: string[]): Element[] => {
+      for (const selector of chain) {
+        const els = Array.from(document.querySelectorAll(selector));
+        if (els.length > 0) return els;
+      }
+      return [];
+    };
+    const text = (chain: string[]): string => {
+      // Skip matches with no text so an empty placeholder doesn't hide a later fallback
+      for (const selector of chain) {
+        const value = document.querySelector(selector)?.textContent?.replace(/\s+/g, ' ').trim();
+        if (value) return value;
+      }
+      return '';
+    };
+    const asinFromUrl = (url: string | null | undefined): string | undefined => {
+      const match = url?.match(/\/dp\/([A-Z0-9]{10})/);
+      return match ? match[1] : undefined;
+    };
+
+    const title = text(fields['product.title']);
+    const price = text(fields['product.price']);
+    const listPrice = text(fields['product.listPrice']);
+    const discount = text(fields['product.discount']);
+
+    const availability = text(fields['product.availability']);
+    const unavailable = /currently unavailable|out of stock/i.test(availability);
+    const inStock = !unavailable && !!pick(fields['product.addToCart']);
+
+    const seller = text(fields['product.seller']);
+    const fulfilledBy = text(fields['product.fulfilledBy'])
+      || (/fulfilled by amazon/i.test(text(fields['product.merchantInfo'])) ? 'Amazon' : '');
+
+    const isPrime = !!pick(fields['product.primeBadge']);
+    const deliveryEstimate = text(fields['product.deliveryEstimate']);
+
+    const bulletPoints = pickAll(fields['product.bulletPoint'])
+      .map(el => el.textContent?.replace(/\s+/g, ' ').trim() || '')
+      .filter(Boolean);
+
+    const categories = pickAll(fields['product.breadcrumb'])
+      .map(el => el.textContent?.replace(/\s+/g, ' ').trim() || '')
+      .filter(Boolean);
+
+    // Variations: classic twister lists, dropdown twisters and the newer inline twister
+    const variations: { dimension: string; options: { value: string; asin?: string; selected: boolean; available: boolean }[] }[] = [];
+    const twisterRows = fields['product.twisterRow'].flatMap(selector => Array.from(document.querySelectorAll(selector)));
+    for (const row of twisterRows) {
+      const dimension = row.id
+        .replace(/^variation_/, '')
+        .replace(/^inline-twister-row-/, '')
+        .replace(/_name$/, '');
+      if (!dimension || variations.some(v => v.dimension === dimension)) continue;
+
+      const dropdown = row.querySelector('select') as HTMLSelectElement | null;
+      let options;
+      if (dropdown) {
+        options = Array.from(dropdown.options)
+          .filter(option => option.value !== '-1')
+          .map(option => ({
+            value: option.textContent?.trim() || '',
+            // Dropdown values look like "2,B0XXXXXXXX"
+            asin: option.value.split(',')[1] || asinFromUrl(option.getAttribute('data-a-html-content')),
+            selected: option.selected,
+            available: !option.classList.contains('dropdownUnavailable'),
+          }));
+      } else {
+        options = Array.from(row.querySelectorAll('li')).map(li => {
+          const img = li.querySelector('img');
+          const label = img?.getAttribute('alt')
+            || li.querySelector('.twisterTextDiv, .swatch-title-text-display')?.textContent?.trim()
+            || li.getAttribute('title')?.replace(/^Click to select\s*/i, '')
+            || li.textContent?.replace(/\s+/g, ' ').trim()
+            || '';
+          return {
+            value: label,
+            asin: li.getAttribute('data-defaultasin')
+              || li.querySelector('[data-asin]')?.getAttribute('data-asin')
+              || asinFromUrl(li.getAttribute('data-dp-url'))
+              || undefined,
+            selected: li.classList.contains('swatchSelect') || li.querySelector('.a-button-selected') !== null,
+            available: !li.classList.contains('swatchUnavailable') && li.querySelector('.a-button-unavailable') === null,
+          };
+        });
+      }
+
+      options = options.filter(option => option.value);
+      if (options.length > 0) {
+        variations.push({ dimension, options });
+      }
+    }
+
+    const ratingEl = pick(fields['product.rating']);
+    const ratingTitle = ratingEl?.getAttribute('title') || ratingEl?.querySelector('.a-icon-alt')?.textContent?.trim() || '';
+    const reviewText = text(fields['product.reviewCount']);
+    const reviewCount = parseInt(reviewText.replace(/[^0-9]/g, ''), 10) || 0;
+
+    // Image gallery: thumbnails carry a size modifier (e.g. "._AC_US40_") that we strip for full size
+    const images: string[] = [];
+    const dynamicImage = pick(fields['product.mainImage'])?.getAttribute('data-a-dynamic-image');
+    if (dynamicImage) {
+      try {
+        const urls = Object.keys(JSON.parse(dynamicImage));
+        if (urls.length > 0) images.push(urls[urls.length - 1]);
+      } catch {
+        // Ignore malformed image metadata
+      }
+    }
+    for (const img of pickAll(fields['product.thumbnail'])) {
+      const src = img.getAttribute('src');
+      if (!src) continue;
+      const fullSize = src.replace(/\._[^/]*_\./, '.');
+      if (!images.includes(fullSize)) images.push(fullSize);
+    }
+
+    return {
+      title: title || 'Unknown Product',
+      price: price || 'Price not available',
+      listPrice: listPrice || undefined,
+      discount: discount || undefined,
+      availability: availability || 'Unknown',
+      inStock,
+      seller: seller || undefined,
+      fulfilledBy: fulfilledBy || undefined,
+      isPrime,
+      deliveryEstimate: deliveryEstimate || undefined,
+      bulletPoints,
+      categories,
+      variations,
+      rating: ratingTitle || 'No rating',
+      reviewCount,
+      images,
+    };
+  }, fields);
+
+  return {
+    asin,
+    url: page.url(),
+    ...details,
+  };
+}
+
+export async function getProductDetails(asin: string): Promise<OperationResult> {
+  try {
+    if (!asin) {
+      throw new Error('ASIN is required');
+    }
+
+    const page = await getPage();
+    await navigate(page, `${baseUrl()}/dp/${asin}`);
+
+    const found = await findSelector(page, 'product.title', { timeout: 5000 });
+    if (!found) {
+      throw new Error(`Product page not found for ASIN ${asin}`);
+    }
+
+    const product = await extractProductDetails(page, asin);
+    recordPrices('product', [{ ...product, price: parseMoney(product.price) }]);
+    rememberProduct(product);
+
+    return {
+      success: true,
+      message: `Loaded product details for "${product.title}"`,
+      data: product,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to get product details',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+/**
+ * Raised when a requested variation can't be selected. Carries the options
+ * the page offers so callers can show them.
+ */
+export class VariationError extends Error {
+  constructor(message: string, readonly variations: ProductVariation[]) {
+    super(message);
+    this.name = 'VariationError';
+  }
+}
+
+function normalizeLabel(value: string): string {
+  return value.toLowerCase().replace(/[\s_-]+/g, ' ').trim();
+}
+
+function describeOptions(variation: ProductVariation): string {
+  return variation.options.map(option => (option.available ? option.value : `${option.value} (unavailable)`)).join(', ');
+}
+
+function selectedOptions(variations: ProductVariation[]): Record<string, string> {
+  const selected: Record<string, string> = {};
+  for (const variation of variations) {
+    const option = variation.options.find(o => o.selected);
+    if (option) selected[variation.dimension] = option.value;
+  }
+  return selected;
+}
+
+/**
+ * Option matching a requested label: exact (ignoring case and spacing), else
+ * the only option starting with it, so "XL" doesn't need to be "XL (Tall)"
+ */
+function matchOption(variation: ProductVariation, value: string): VariationOption | undefined {
+  const wanted = normalizeLabel(value);
+  const exact = variation.options.find(option => normalizeLabel(option.value) === wanted);
+  if (exact) return exact;
+
+  const prefixed = variation.options.filter(option => normalizeLabel(option.value).startsWith(wanted));
+  return prefixed.length === 1 ? prefixed[0] : undefined;
+}
+
+/**
+ * ASIN the add-to-cart form on the loaded product page would submit
+ */
+async function readFormAsin(page: Page): Promise<string | undefined> {
+  const asinInput = await findSelector(page, 'product.asinInput');
+  const value = asinInput ? await page.$eval(asinInput, el => (el as HTMLInputElement).value) : '';
+  return value || page.url().match(/\/dp\/([A-Z0-9]{10})/)?.[1];
+}
+
+/**
+ * Choose twister options on the loaded product page, one dimension at a
+ * time, by opening each chosen option's child ASIN. Returns the details of
+ * the child product the page ends up on.
+ */
+async function selectVariation(page: Page, requested: Record<string, string>): Promise<ProductDetails> {
+  let product = await extractProductDetails(page, await readFormAsin(page) || '');
+
+  for (const [dimension, value] of Object.entries(requested)) {
+    const variation = product.variations.find(v => normalizeLabel(v.dimension) === normalizeLabel(dimension));
+    if (!variation) {
+      throw new VariationError(product.variations.length > 0
+        ? `No "${dimension}" option for "${product.title}". It varies by: ${product.variations.map(v => v.dimension).join(', ')}`
+        : `"${product.title}" has no variations to choose from`, product.variations);
+    }
+
+    const option = matchOption(variation, value);
+    if (!option) {
+      throw new VariationError(`No ${variation.dimension} "${value}". Available: ${describeOptions(variation)}`, product.variations);
+    }
+
+    if (!option.available) {
+      const others = Object.entries(selectedOptions(product.variations))
+        .filter(([other]) => other !== variation.dimension)
+        .map(([other, selected]) => `${other} ${selected}`);
+      throw new VariationError(
+        `${variation.dimension} "${option.value}" is not available${others.length > 0 ? ` with ${others.join(', ')}` : ''}. ` +
+        `Available: ${describeOptions(variation)}`,
+        product.variations,
+      );
+    }
+
+    if (!option.selected) {
+      if (!option.asin) {
+        throw new VariationError(`The page does not link ${variation.dimension} "${option.value}" to a product`, product.variations);
+      }
+      await navigate(page, `${baseUrl()}/dp/${option.asin}`);
+      product = await extractProductDetails(page, await readFormAsin(page) || option.asin);
+    }
+  }
+
+  // Opening a later option can switch an earlier one when that combination doesn't exist
+  const selected = selectedOptions(product.variations);
+  const mismatched = Object.entries(requested).filter(([dimension, value]) => {
+    const variation = product.variations.find(v => normalizeLabel(v.dimension) === normalizeLabel(dimension));
+    return !variation || matchOption(variation, value) !== variation.options.find(o => o.selected);
+  });
+  if (mismatched.length > 0) {
+    const wanted = Object.entries(requested).map(([dimension, value]) => `${dimension} ${value}`).join(', ');
+    const landed = Object.entries(selected).map(([dimension, value]) => `${dimension} ${value}`).join(', ');
+    throw new VariationError(`${wanted} is not an available combination (the closest is ${landed})`, product.variations);
+  }
+
+  return product;
+}
+
+/**
+ * Details of the child product a variation map picks out, starting from a
+ * parent or sibling ASIN
+ */
+export async function getVariantDetails(asin: string, variation: Record<string, string>): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+    await navigate(page, `${baseUrl()}/dp/${asin}`);
+
+    const found = await findSelector(page, 'product.title', { timeout: 5000 });
+    if (!found) {
+      throw new Error(`Product page not found for ASIN ${asin}`);
+    }
+
+    const product = await selectVariation(page, variation);
+    recordPrices('product', [{ ...product, price: parseMoney(product.price) }]);
+    rememberProduct(product);
+    return {
+      success: true,
+      message: `Loaded product details for "${product.title}"`,
+      data: product,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to select product variation',
+      data: error instanceof VariationError ? { variations: error.variations } : undefined,
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
     };
   }
 }
 
+const UNAVAILABLE_PATTERN = /currently unavailable|out of stock|no longer available/i;
+
+// Alert text after an add-to-cart click, classified by what went wrong
+const ADD_TO_CART_ALERTS: [AddToCartInterstitialType, RegExp][] = [
+  ['quantity_limit', /limit|maximum|only \d+ (?:left|available|per)/i],
+  ['out_of_stock', UNAVAILABLE_PATTERN],
+  ['variation_not_selected', /select (?:a|an|the) |choose (?:a|an|the) /i],
+];
+
+/**
+ * Active cart quantities by ASIN. Loads the cart page.
+ */
+async function snapshotCart(page: Page): Promise<Map<string, number>> {
+  await navigate(page, `${baseUrl()}${CART_URL_PATH}`);
+  const { items } = await readCart(page);
+
+  const quantities = new Map<string, number>();
+  items.forEach(item => quantities.set(item.asin, (quantities.get(item.asin) || 0) + item.quantity));
+  return quantities;
+}
+
+function totalQuantity(cart: Map<string, number>): number {
+  return Array.from(cart.values()).reduce((sum, quantity) => sum + quantity, 0);
+}
+
+async function textOf(page: Page, field: SelectorField): Promise<string> {
+  const selector = await findSelector(page, field);
+  return selector
+    ? page.$eval(selector, el => el.textContent?.replace(/\s+/g, ' ').trim() || '')
+    : '';
+}
+
+/**
+ * Problems visible on the product page before clicking Add to Cart
+ */
+async function checkProductPage(page: Page, quantity: number): Promise<AddToCartInterstitial | null> {
+  const availability = await textOf(page, 'product.availability');
+  if (UNAVAILABLE_PATTERN.test(availability)) {
+    return { type: 'out_of_stock', message: availability, handled: false };
+  }
+
+  if (!(await findSelector(page, 'product.addToCart'))) {
+    if (await findSelector(page, 'product.twisterRow')) {
+      return {
+        type: 'variation_not_selected',
+        message: 'No Add to Cart button until a variation is chosen; pass the options by dimension, e.g. { "size": "L" }',
+        handled: false,
+      };
+    }
+    return null;  // Let requireElement() name the missing selector
+  }
+
+  const quantitySelector = await findSelector(page, 'product.quantity');
+  if (quantity > 1 && quantitySelector) {
+    const options = await page.$$eval(`${quantitySelector} option`, els => els.map(el => (el as HTMLOptionElement).value));
+    if (options.length > 0 && !options.includes(String(quantity))) {
+      const max = Math.max(...options.map(Number).filter(Number.isFinite));
+      return {
+        type: 'quantity_limit',
+        message: `At most ${max} can be added from the product page`,
+        handled: false,
+      };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Deal with whatever appears after clicking Add to Cart: decline protection
+ * plans, note side sheets and report alerts
+ */
+async function handleAddToCartResponse(page: Page): Promise<AddToCartInterstitial[]> {
+  const fields: SelectorField[] = [
+    'product.addToCartConfirmation',
+    'addToCart.protectionPlan',
+    'addToCart.sideSheet',
+    'addToCart.alert',
+  ];
+  await page.waitForSelector(fields.flatMap(field => selectorsFor(field)).join(', '), { timeout: 5000 }).catch(() => {});
+
+  const interstitials: AddToCartInterstitial[] = [];
+
+  if (await findSelector(page, 'addToCart.protectionPlan')) {
+    const decline = await findSelector(page, 'addToCart.declineProtection');
+    if (decline) {
+      await page.click(decline);
+      await page.waitForNetworkIdle({ idleTime: 500, timeout: 5000 }).catch(() => {});
+    }
+    interstitials.push({
+      type: 'protection_plan',
+      message: decline ? 'Declined the protection plan offer' : 'Protection plan offer shown with no decline button',
+      handled: !!decline,
+    });
+  }
+
+  if (await findSelector(page, 'addToCart.sideSheet')) {
+    interstitials.push({
+      type: 'side_sheet',
+      message: await textOf(page, 'addToCart.sideSheetMessage') || 'Added-to-cart side sheet shown',
+      handled: true,
+    });
+  }
+
+  const alert = await textOf(page, 'addToCart.alert');
+  if (alert) {
+    const type = ADD_TO_CART_ALERTS.find(([, pattern]) => pattern.test(alert))?.[0] || 'alert';
+    interstitials.push({ type, message: alert, handled: false });
+  }
+
+  return interstitials;
+}
+
 export async function addToCart(params: AddToCartParams): Promise<OperationResult> {
   try {
     const page = await getPage();
     const quantity = params.quantity || 1;
 
+    const before = await snapshotCart(page);
+
     // Navigate to product page
     if (params.asin) {
-      await page.goto(`${BASE_URL}/dp/${params.asin}`, { waitUntil: 'networkidle2' });
+      await navigate(page, `${baseUrl()}/dp/${params.asin}`);
     } else if (params.query) {
       // Search first, then click first result
-      await page.goto(BASE_URL, { waitUntil: 'networkidle2' });
-      await page.waitForSelector('#twotabsearchtextbox');
-      await page.type('#twotabsearchtextbox', params.query);
-      await page.click('#nav-search-submit-button');
-
-      await page.waitForSelector('[data-component-type="s-search-result"] h2 a');
-      await page.click('[data-component-type="s-search-result"] h2 a');
-      await page.waitForNavigation({ waitUntil: 'networkidle2' });
+      const resultSelector = await submitSearch(page, { query: params.query });
+      const resultLink = await requireSelector(page, 'search.resultLink', {
+        scope: resultSelector,
+        context: 'in the first search result',
+      });
+
+      await Promise.all([
+        page.waitForNavigation({ waitUntil: 'networkidle2' }),
+        page.click(resultLink),
+      ]);
+      await checkPage(page);
     } else {
       throw new Error('Either query or asin must be provided');
     }
 
-    // Get product title
-    const title = await page.evaluate(() => {
-      const titleEl = document.querySelector('#productTitle');
-      return titleEl?.textContent?.trim() || 'Unknown Product';
-    });
+    const variation = params.variation && Object.keys(params.variation).length > 0
+      ? selectedOptions((await selectVariation(page, params.variation)).variations)
+      : undefined;
+
+    // The form carries the buyable (child) ASIN, which may differ from the one asked for
+    const asin = await readFormAsin(page) || params.asin;
+    const title = await textOf(page, 'product.title') || 'Unknown Product';
+
+    const result: AddToCartResult = {
+      asin,
+      title,
+      quantity,
+      added: 0,
+      cartQuantityBefore: asin ? before.get(asin) || 0 : totalQuantity(before),
+      cartQuantityAfter: 0,
+      cartItemCount: totalQuantity(before),
+      interstitials: [],
+      variation,
+    };
+
+    const blocker = await checkProductPage(page, quantity);
+    if (blocker) {
+      result.cartQuantityAfter = result.cartQuantityBefore;
+      result.interstitials.push(blocker);
+      if (blocker.type === 'variation_not_selected') {
+        result.variations = (await extractProductDetails(page, asin || '')).variations;
+      }
+      return {
+        success: false,
+        message: `Could not add "${title}" to cart`,
+        data: result,
+        error: `${blocker.type}: ${blocker.message}`,
+      };
+    }
 
     // Set quantity if more than 1
     if (quantity > 1) {
-      const quantityExists = await waitForElement(page, '#quantity');
-      if (quantityExists) {
-        await page.select('#quantity', String(quantity));
+      const quantitySelector = await findSelector(page, 'product.quantity', { timeout: 5000 });
+      if (quantitySelector) {
+        await page.select(quantitySelector, String(quantity));
       }
     }
 
     // Click Add to Cart button
-    const addToCartButton = await page.$('#add-to-cart-button');
-    if (!addToCartButton) {
-      throw new Error('Add to Cart button not found');
-    }
+    const addToCartButton = await requireElement(page, 'product.addToCart', {
+      timeout: 0,
+      context: 'on the product page',
+    });
 
     await addToCartButton.click();
+    result.interstitials = await handleAddToCartResponse(page);
 
-    // Wait for confirmation
-    const confirmationExists = await waitForElement(page, '#sw-atc-confirmation, #NATC_SMART_WAGON_CONF_MSG_SUCCESS', 3000);
-
-    if (!confirmationExists) {
-      // Try alternate method - check if cart count increased
-      await new Promise(resolve => setTimeout(resolve, 2000));
-    }
+    // Only the cart itself says whether the item went in
+    const after = await snapshotCart(page);
+    result.cartQuantityAfter = asin ? after.get(asin) || 0 : totalQuantity(after);
+    result.cartItemCount = totalQuantity(after);
+    result.added = result.cartQuantityAfter - result.cartQuantityBefore;
 
     // Auto-save session after cart modification
     await saveAmazonSession(page).catch(() => {});
 
+    if (result.added >= quantity) {
+      return {
+        success: true,
+        message: `Added "${title}" to cart (quantity: ${quantity}, now ${result.cartQuantityAfter} in cart)`,
+        data: result,
+      };
+    }
+
+    const problem = result.interstitials.find(i => !i.handled);
     return {
-      success: true,
-      message: `Added "${title}" to cart (quantity: ${quantity})`,
-      data: { title, quantity },
+      success: false,
+      message: result.added > 0
+        ? `Only ${result.added} of ${quantity} of "${title}" were added to cart`
+        : `"${title}" was not added to cart`,
+      data: result,
+      error: problem
+        ? `${problem.type}: ${problem.message}`
+        : `Cart quantity went from ${result.cartQuantityBefore} to ${result.cartQuantityAfter}`,
     };
   } catch (error) {
     return {
       success: false,
       message: 'Failed to add item to cart',
+      data: error instanceof VariationError ? { variations: error.variations } : undefined,
       error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
     };
   }
 }
 
-export async function getCart(): Promise<OperationResult> {
-  try {
-    const page = await getPage();
+export const CART_URL_PATH = '/gp/cart/view.html';
 
-    await page.goto(`${BASE_URL}/gp/cart/view.html`, { waitUntil: 'networkidle2' });
+const CART_SECTIONS = {
+  active: 'cart.activeSection',
+  saved: 'cart.savedSection',
+} as const;
 
-    // Check if cart is empty
-    const emptyCart = await page.$('.sc-your-amazon-cart-is-empty');
-    if (emptyCart) {
-      return {
-        success: true,
-        message: 'Cart is empty',
-        data: { items: [], total: '$0.00' },
-      };
+type CartSection = keyof typeof CART_SECTIONS;
+
+/**
+ * Read active and saved-for-later items from the currently loaded cart page
+ */
+async function readCart(page: Page): Promise<CartContents> {
+  const fields = selectorMap(['cart.item', 'cart.itemTitle', 'cart.itemPrice', 'cart.itemQuantity', 'cart.itemImage']);
+
+  const extractItems = async (section: CartSection): Promise<CartItem[]> => {
+    const sectionSelector = await findSelector(page, CART_SECTIONS[section]);
+    if (!sectionSelector) {
+      return [];
     }
 
-    // Extract cart items
-    const items = await page.evaluate(() => {
-      const cartItems = Array.from(document.querySelectorAll('[data-name="Active Items"] .sc-list-item')) as Element[];
+    const scraped = await page.evaluate((sectionSelector: string, fields: Record<string, string[]>) => {
+      const pick = (root: ParentNode, chain: string[]): Element | null => {
+        for (const selector of chain) {
+          const el = root.querySelector(selector);
+          if (el) return el;
+        }
+        return null;
+      };
+
+      const section = document.querySelector(sectionSelector);
+      const itemSelector = fields['cart.item'].find(selector => section?.querySelector(selector));
+      const cartItems = itemSelector ? Array.from(section!.querySelectorAll(itemSelector)) : [];
       return cartItems.map((item: Element) => {
-        const titleEl = item.querySelector('.sc-product-title');
-        const priceEl = item.querySelector('.sc-product-price');
-        const quantityEl = item.querySelector('[name^="quantity"]') as HTMLSelectElement;
-        const imageEl = item.querySelector('img');
+        const titleEl = pick(item, fields['cart.itemTitle']);
+        const priceEl = pick(item, fields['cart.itemPrice']);
+        const quantityEl = pick(item, fields['cart.itemQuantity']) as HTMLSelectElement | null;
+        const imageEl = pick(item, fields['cart.itemImage']);
         const asinAttr = item.getAttribute('data-asin');
 
         return {
           title: titleEl?.textContent?.trim() || 'Unknown',
-          price: priceEl?.textContent?.trim() || 'N/A',
+          price: priceEl?.textContent?.trim() || '',
           quantity: quantityEl?.value ? parseInt(quantityEl.value) : 1,
           asin: asinAttr || '',
           imageUrl: imageEl?.getAttribute('src') || '',
         };
       });
-    });
+    }, sectionSelector, fields);
 
-    // Get subtotal
-    const subtotal = await page.evaluate(() => {
-      const subtotalEl = document.querySelector('#sc-subtotal-amount-activecart .sc-price');
-      return subtotalEl?.textContent?.trim() || '$0.00';
+    return scraped.map(({ price: display, ...item }) => {
+      const price = parseMoney(display);
+      return {
+        title: item.title,
+        price,
+        quantity: item.quantity,
+        lineTotal: multiplyMoney(price, item.quantity),
+        asin: item.asin,
+        imageUrl: item.imageUrl,
+      };
     });
+  };
+
+  const items = await extractItems('active');
+  const savedForLater = await extractItems('saved');
 
+  const subtotalSelector = await findSelector(page, 'cart.subtotal');
+  const subtotal = subtotalSelector
+    ? parseMoney(await page.$eval(subtotalSelector, el => el.textContent?.trim() || ''))
+    : null;
+
+  // Cross-check Amazon's subtotal against the line items
+  const computedSubtotal = toMoney(items.reduce((sum, item) => sum + (item.lineTotal?.amount || 0), 0));
+  const subtotalMatches = items.every(item => item.price)
+    && sameAmount(computedSubtotal.amount, subtotal?.amount ?? 0);
+
+  return { items, savedForLater, subtotal, computedSubtotal, subtotalMatches };
+}
+
+/**
+ * Wait until the cart page settles after an in-place (AJAX) update
+ */
+async function waitForCartUpdate(page: Page, itemSelector: string, expectRemoval: boolean): Promise<void> {
+  if (expectRemoval) {
+    await page.waitForFunction(
+      (selector: string) => !document.querySelector(selector),
+      { timeout: 10000 },
+      itemSelector,
+    ).catch(() => {});
+  }
+  await page.waitForNetworkIdle({ idleTime: 500, timeout: 10000 }).catch(() => {});
+}
+
+/**
+ * Selector for a specific line item (by ASIN) in a cart section, or null
+ */
+async function findCartItem(page: Page, asin: string, section: CartSection): Promise<string | null> {
+  const sectionSelector = await findSelector(page, CART_SECTIONS[section]);
+  if (!sectionSelector) {
+    return null;
+  }
+
+  const itemSelector = await findSelector(page, 'cart.item', { scope: sectionSelector });
+  if (!itemSelector) {
+    return null;
+  }
+
+  const selector = `${itemSelector}[data-asin="${asin}"]`;
+  return (await page.$(selector)) ? selector : null;
+}
+
+/**
+ * Load the cart page and locate a line item by ASIN in the given section
+ */
+async function openCartItem(page: Page, asin: string, section: CartSection): Promise<string> {
+  await navigate(page, `${baseUrl()}${CART_URL_PATH}`);
+
+  const itemSelector = await findCartItem(page, asin, section);
+  if (!itemSelector) {
+    const where = section === 'active' ? 'cart' : 'saved for later list';
+    throw new Error(`Item ${asin} not found in ${where}`);
+  }
+
+  return itemSelector;
+}
+
+/**
+ * Click one of the per-item action links (Delete, Save for later, Move to cart)
+ */
+async function clickCartItemAction(
+  page: Page,
+  itemSelector: string,
+  action: 'cart.itemDelete' | 'cart.itemSaveForLater' | 'cart.itemMoveToCart',
+): Promise<void> {
+  const button = await requireElement(page, action, {
+    scope: itemSelector,
+    timeout: 0,
+    context: 'for this cart item',
+  });
+
+  await button.click();
+  await waitForCartUpdate(page, itemSelector, true);
+}
+
+export async function getCart(): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+
+    await navigate(page, `${baseUrl()}${CART_URL_PATH}`);
+
+    const cart = await readCart(page);
+    recordPrices('cart', [...cart.items, ...cart.savedForLater]);
+
+    // Check if cart is empty
+    const emptyCart = await findSelector(page, 'cart.empty');
+    if (emptyCart) {
+      const zero = toMoney(0);
+      return {
+        success: true,
+        message: 'Cart is empty',
+        data: { ...cart, items: [], subtotal: zero, computedSubtotal: zero, subtotalMatches: true },
+      };
+    }
+
+    const mismatch = cart.subtotalMatches
+      ? ''
+      : ` (the items add up to ${cart.computedSubtotal.display}, but Amazon shows a subtotal of ${cart.subtotal?.display || 'nothing'})`;
     return {
       success: true,
-      message: `Cart contains ${items.length} item(s)`,
-      data: { items, subtotal },
+      message: `Cart contains ${cart.items.length} item(s)${mismatch}`,
+      data: cart,
     };
   } catch (error) {
     return {
       success: false,
       message: 'Failed to get cart contents',
       error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
     };
   }
 }
 
-export async function checkLoginStatus(): Promise<OperationResult> {
+/**
+ * Return the refreshed cart after a mutation, keeping the mutation's message
+ */
+async function withRefreshedCart(page: Page, message: string): Promise<OperationResult> {
+  // Auto-save session after cart modification
+  await saveAmazonSession(page).catch(() => {});
+
+  const cart = await getCart();
+  return {
+    success: cart.success,
+    message,
+    data: cart.data,
+    error: cart.error,
+  };
+}
+
+export async function removeFromCart(asin: string): Promise<OperationResult> {
   try {
     const page = await getPage();
-    await page.goto(BASE_URL, { waitUntil: 'networkidle2' });
+    const itemSelector = await openCartItem(page, asin, 'active');
 
-    const loginInfo = await page.evaluate(() => {
-      const accountList = document.querySelector('#nav-link-accountList-nav-line-1');
-      const accountText = accountList?.textContent?.trim() || '';
-      const isLoggedIn = accountText.includes('Hello');
+    await clickCartItemAction(page, itemSelector, 'cart.itemDelete');
 
-      // Get cookie count for debugging
-      const cookieCount = document.cookie.split(';').filter(c => c.trim()).length;
+    return await withRefreshedCart(page, `Removed ${asin} from cart`);
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to remove item from cart',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
 
-      return {
-        isLoggedIn,
-        accountText,
-        cookieCount,
-      };
-    });
+export async function updateCartQuantity(asin: string, quantity: number): Promise<OperationResult> {
+  if (quantity === 0) {
+    return removeFromCart(asin);
+  }
+
+  try {
+    if (!Number.isInteger(quantity) || quantity < 0) {
+      throw new Error('Quantity must be a non-negative integer');
+    }
+
+    const page = await getPage();
+    const itemSelector = await openCartItem(page, asin, 'active');
+
+    const quantitySelect = await findSelector(page, 'cart.itemQuantitySelect', { scope: itemSelector });
+    const hasOption = quantitySelect
+      ? await page.$eval(quantitySelect, (el, value) =>
+        Array.from((el as HTMLSelectElement).options).some(o => o.value === value), String(quantity))
+      : false;
+
+    if (quantitySelect && hasOption) {
+      await page.select(quantitySelect, String(quantity));
+    } else {
+      // Quantities above the dropdown range (10+) use a free-text box with an Update link
+      if (quantitySelect) {
+        await page.select(quantitySelect, '10');
+      }
+      const quantityBox = await requireSelector(page, 'cart.itemQuantityBox', {
+        scope: itemSelector,
+        timeout: 3000,
+        context: 'for this cart item',
+      });
+      await page.click(quantityBox, { count: 3 });
+      await page.type(quantityBox, String(quantity));
+
+      const updateButton = await findSelector(page, 'cart.itemUpdate', { scope: itemSelector });
+      if (updateButton) {
+        await page.click(updateButton);
+      } else {
+        await page.keyboard.press('Enter');
+      }
+    }
+
+    await waitForCartUpdate(page, itemSelector, false);
+
+    return await withRefreshedCart(page, `Updated quantity of ${asin} to ${quantity}`);
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to update cart quantity',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+export async function saveForLater(asin: string): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+    const itemSelector = await openCartItem(page, asin, 'active');
+
+    await clickCartItemAction(page, itemSelector, 'cart.itemSaveForLater');
+
+    return await withRefreshedCart(page, `Moved ${asin} to saved for later`);
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to save item for later',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+export async function moveToCart(asin: string): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+    const itemSelector = await openCartItem(page, asin, 'saved');
+
+    await clickCartItemAction(page, itemSelector, 'cart.itemMoveToCart');
+
+    return await withRefreshedCart(page, `Moved ${asin} from saved for later to cart`);
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to move item to cart',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+export async function clearCart(): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+    await navigate(page, `${baseUrl()}${CART_URL_PATH}`);
+
+    const { items } = await readCart(page);
+    const removed: string[] = [];
+
+    // Delete one line item at a time; the cart re-renders after each removal
+    for (const item of items) {
+      const itemSelector = await findCartItem(page, item.asin, 'active');
+      if (!itemSelector) {
+        continue;
+      }
+      await clickCartItemAction(page, itemSelector, 'cart.itemDelete');
+      removed.push(item.asin);
+    }
+
+    return await withRefreshedCart(page, `Removed ${removed.length} item(s) from cart`);
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to clear cart',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+export async function checkLoginStatus(): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+    await navigate(page, baseUrl());
+
+    const { isLoggedIn, accountText } = await getAccountStatus(page);
+
+    // Get cookie count for debugging
+    const cookieCount = await page.evaluate(() => document.cookie.split(';').filter(c => c.trim()).length);
+    const loginInfo = { isLoggedIn, accountText, cookieCount };
 
     console.log('Login status check:', {
       loggedIn: loginInfo.isLoggedIn,
@@ -241,6 +1151,7 @@ export async function checkLoginStatus(): Promise<OperationResult> {
       success: false,
       message: 'Failed to check login status',
       error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
     };
   }
 }
@@ -1,23 +1,60 @@
 import puppeteer, { Browser, Page } from 'puppeteer';
 import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+import { Profile, currentProfile, listProfiles, withProfile } from './profiles';
+import { restoreAmazonSession } from './session-manager';
 
-let browserInstance: Browser | null = null;
+// One Chrome per profile, each with its own user-data dir and therefore its own cookies and login
+const browsers = new Map<string, Browser>();
 
-export async function getBrowser(): Promise<Browser> {
-  if (browserInstance && browserInstance.connected) {
-    return browserInstance;
+// Page bound to the current async call chain (the pooled tab of a queued browser operation)
+const pageScope = new AsyncLocalStorage<Page>();
+
+/**
+ * Whether browsers run without a window, so nobody can step in on a CAPTCHA or sign-in page
+ */
+export function isHeadless(): boolean {
+  return process.env.HEADLESS === 'true';
+}
+
+/**
+ * Hide the usual automation giveaways from scripts on every document the page loads
+ */
+async function hardenPage(page: Page): Promise<void> {
+  await page.evaluateOnNewDocument(() => {
+    // Remove webdriver property
+    Object.defineProperty(navigator, 'webdriver', {
+      get: () => undefined,
+    });
+
+    // Mock plugins and languages
+    Object.defineProperty(navigator, 'plugins', {
+      get: () => [1, 2, 3, 4, 5],
+    });
+
+    Object.defineProperty(navigator, 'languages', {
+      get: () => ['en-US', 'en'],
+    });
+  });
+}
+
+export async function getBrowser(profile: Profile = currentProfile()): Promise<Browser> {
+  const existing = browsers.get(profile.name);
+  if (existing && existing.connected) {
+    return existing;
   }
 
-  const userDataDir = path.resolve(process.env.USER_DATA_DIR || './user-data');
-  const headless = process.env.HEADLESS === 'true';
+  const userDataDir = path.resolve(profile.userDataDir);
+  const headless = isHeadless();
 
   console.log('Launching browser with config:', {
+    profile: profile.name,
     headless,
     userDataDir,
   });
 
   try {
-    browserInstance = await puppeteer.launch({
+    const browserInstance = await puppeteer.launch({
     headless,
     userDataDir,
     args: [
@@ -34,31 +71,20 @@ export async function getBrowser(): Promise<Browser> {
     },
   });
 
-  // Set additional properties to avoid detection and check for existing cookies
+  // Set additional properties to avoid detection, restore the saved session and check for existing cookies
   {
     const pages = await browserInstance.pages();
     if (pages.length > 0) {
       const page = pages[0];
-      await page.evaluateOnNewDocument(() => {
-        // Remove webdriver property
-        Object.defineProperty(navigator, 'webdriver', {
-          get: () => undefined,
-        });
-
-        // Mock plugins and languages
-        Object.defineProperty(navigator, 'plugins', {
-          get: () => [1, 2, 3, 4, 5],
-        });
-
-        Object.defineProperty(navigator, 'languages', {
-          get: () => ['en-US', 'en'],
-        });
-      });
+      await hardenPage(page);
+
+      // On every launch, so profiles started on demand get their saved session (and legacy migration) too
+      await withProfile(profile.name, () => restoreAmazonSession(page));
 
       // Check if we have existing Amazon cookies
       const client = await page.target().createCDPSession();
       const { cookies } = await client.send('Network.getCookies', {
-        urls: ['https://www.amazon.com'],
+        urls: [profile.baseUrl],
       });
       await client.detach();
 
@@ -79,6 +105,7 @@ export async function getBrowser(): Promise<Browser> {
     }
   }
 
+    browsers.set(profile.name, browserInstance);
     return browserInstance;
   } catch (error) {
     console.error('Failed to launch browser:', error);
@@ -91,7 +118,36 @@ export async function getBrowser(): Promise<Browser> {
   }
 }
 
+/**
+ * Open a new tab in the current profile's browser, with anti-detection measures applied
+ */
+export async function newPage(): Promise<Page> {
+  const browser = await getBrowser();
+  const page = await browser.newPage();
+
+  await hardenPage(page);
+
+  return page;
+}
+
+/**
+ * Run fn with getPage() returning the given page throughout its async call
+ * chain, so each browser operation drives its own tab
+ */
+export function withPage<T>(page: Page, fn: () => Promise<T>): Promise<T> {
+  return pageScope.run(page, fn);
+}
+
 export async function getPage(): Promise<Page> {
+  const scopedPage = pageScope.getStore();
+  if (scopedPage) {
+    // Never fall back to another tab: a closed scoped page means the operation was timed out or cancelled
+    if (scopedPage.isClosed()) {
+      throw new Error('Browser operation was cancelled');
+    }
+    return scopedPage;
+  }
+
   const browser = await getBrowser();
   const pages = await browser.pages();
 
@@ -102,29 +158,21 @@ export async function getPage(): Promise<Page> {
     page = await browser.newPage();
   }
 
-  // Apply anti-detection measures to the page
-  await page.evaluateOnNewDocument(() => {
-    // Remove webdriver property
-    Object.defineProperty(navigator, 'webdriver', {
-      get: () => undefined,
-    });
-
-    // Mock plugins and languages
-    Object.defineProperty(navigator, 'plugins', {
-      get: () => [1, 2, 3, 4, 5],
-    });
-
-    Object.defineProperty(navigator, 'languages', {
-      get: () => ['en-US', 'en'],
-    });
-  });
+  await hardenPage(page);
 
   return page;
 }
 
+/**
+ * Profiles whose browser is currently running
+ */
+export function getLaunchedProfiles(): Profile[] {
+  return listProfiles().filter(profile => browsers.get(profile.name)?.connected);
+}
+
 export async function closeBrowser(): Promise<void> {
-  if (browserInstance) {
-    console.log('\nClosing browser and saving session data...');
+  for (const [profileName, browserInstance] of browsers) {
+    console.log(`\nClosing browser for profile "${profileName}" and saving session data...`);
 
     try {
       // Get all pages and inspect cookies before closing
@@ -154,7 +202,7 @@ export async function closeBrowser(): Promise<void> {
     }
 
     await browserInstance.close();
-    browserInstance = null;
+    browsers.delete(profileName);
     console.log('✓ Browser closed, session data saved to user-data directory');
   }
 }
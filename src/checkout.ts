@@ -0,0 +1,296 @@
+import { Page } from 'puppeteer';
+import crypto from 'crypto';
+import { getPage } from './browser';
+import { baseUrl, CART_URL_PATH } from './amazon';
+import { CheckoutSummary, OperationResult } from './types';
+import { saveAmazonSession } from './session-manager';
+import { findSelector, requireElement, requireSelector, selectorMap } from './selectors';
+import { parseAmount } from './money';
+import { recordSpend } from './policy';
+import { currentProfile } from './profiles';
+import { checkPage, errorCode, navigate } from './page-guard';
+
+// How long a prepare_checkout (or subscribe_and_save preview) confirmation token stays valid
+export const CONFIRMATION_TTL_MS = (Number(process.env.CHECKOUT_TOKEN_TTL_SECONDS) || 300) * 1000;
+
+interface PendingCheckout {
+  token: string;
+  summary: CheckoutSummary;
+  expiresAt: number;
+}
+
+// One pending checkout per profile - preparing a new one replaces it
+const pendingCheckouts = new Map<string, PendingCheckout>();
+
+/**
+ * Total of the current profile's pending checkout as shown on the summary, or null
+ */
+export function pendingCheckoutTotal(): string | null {
+  return pendingCheckouts.get(currentProfile().name)?.summary.total ?? null;
+}
+
+/**
+ * Walk from the cart to the final "Place your order" page
+ */
+async function openCheckout(page: Page): Promise<void> {
+  await navigate(page, `${baseUrl()}${CART_URL_PATH}`);
+
+  if (await findSelector(page, 'cart.empty')) {
+    throw new Error('Cart is empty');
+  }
+
+  const proceedButton = await requireElement(page, 'cart.proceedToCheckout', { context: 'on the cart page' });
+  await Promise.all([
+    page.waitForNavigation({ waitUntil: 'networkidle2' }),
+    proceedButton.click(),
+  ]);
+  await checkPage(page);
+
+  // Address/payment pickers or Prime upsells show up here when checkout can't go straight to review
+  const placeOrder = await findSelector(page, 'checkout.placeOrder', { timeout: 15000 });
+  if (!placeOrder) {
+    throw new Error(
+      `Checkout did not reach the "Place your order" page (stopped at ${page.url()}). ` +
+      'Complete the address, payment or delivery selection in the browser, then try again.',
+    );
+  }
+}
+
+/**
+ * Scrape the order summary from the "Place your order" page
+ */
+async function readCheckoutSummary(page: Page): Promise<CheckoutSummary> {
+  const fields = selectorMap([
+    'checkout.item',
+    'checkout.itemTitle',
+    'checkout.itemQuantity',
+    'checkout.itemPrice',
+    'checkout.shippingAddress',
+    'checkout.paymentMethod',
+    'checkout.deliveryOption',
+    'checkout.summaryRow',
+    'checkout.total',
+  ]);
+
+  const summary = await page.evaluate((fields: Record<string, string[]>) => {
+    const clean = (value: string | null | undefined): string => value?.replace(/\s+/g, ' ').trim() || '';
+    const pick = (root: ParentNode, chain: string[]): Element | null => {
+      for (const selector of chain) {
+        const el = root.querySelector(selector);
+        if (el) return el;
+      }
+      return null;
+    };
+    const pickAll = (chain: string[]): Element[] => {
+      for (const selector of chain) {
+        const els = Array.from(document.querySelectorAll(selector));
+        if (els.length > 0) return els;
+      }
+      return [];
+    };
+
+    const items = pickAll(fields['checkout.item']).map(item => {
+      const quantityText = clean(pick(item, fields['checkout.itemQuantity'])?.textContent);
+      return {
+        title: clean(pick(item, fields['checkout.itemTitle'])?.textContent) || 'Unknown',
+        quantity: parseInt(quantityText.replace(/[^0-9]/g, ''), 10) || 1,
+        price: clean(pick(item, fields['checkout.itemPrice'])?.textContent),
+      };
+    });
+
+    // Order summary table: "Items:", "Shipping & handling:", "Estimated tax to be collected:", ...
+    const rows = pickAll(fields['checkout.summaryRow']).map(row => {
+      const cells = Array.from(row.querySelectorAll('td, .a-column, span')).map(cell => clean(cell.textContent)).filter(Boolean);
+      return { label: cells[0] || '', value: cells[cells.length - 1] || '' };
+    });
+    const rowValue = (pattern: RegExp): string | undefined => rows.find(row => pattern.test(row.label))?.value;
+
+    const paymentMethod = clean(pick(document, fields['checkout.paymentMethod'])?.textContent);
+    const last4 = paymentMethod.match(/(?:ending in|\*{2,}|•+)\s*(\d{4})/i);
+
+    return {
+      items,
+      shippingAddress: clean(pick(document, fields['checkout.shippingAddress'])?.textContent),
+      paymentMethod,
+      paymentLast4: last4 ? last4[1] : undefined,
+      deliveryOption: clean(pick(document, fields['checkout.deliveryOption'])?.textContent),
+      itemsSubtotal: rowValue(/^items/i),
+      shipping: rowValue(/shipping|delivery/i),
+      tax: rowValue(/tax/i) || '',
+      total: clean(pick(document, fields['checkout.total'])?.textContent) || rowValue(/order total|total/i) || '',
+    };
+  }, fields);
+
+  if (summary.items.length === 0 || !summary.total) {
+    throw new Error('Could not read the order summary from the checkout page');
+  }
+
+  return summary;
+}
+
+/**
+ * Normalize a display price for comparison ("$1,234.50 " vs "$1234.50")
+ */
+function normalizeAmount(value: string): string {
+  return value.replace(/[\s,]/g, '').toLowerCase();
+}
+
+/**
+ * List every difference between the confirmed summary and the live page
+ */
+function diffSummaries(confirmed: CheckoutSummary, current: CheckoutSummary): string[] {
+  const drift: string[] = [];
+  const compare = (label: string, a: string | undefined, b: string | undefined) => {
+    if ((a || '') !== (b || '')) {
+      drift.push(`${label} changed from "${a || ''}" to "${b || ''}"`);
+    }
+  };
+
+  compare('total', normalizeAmount(confirmed.total), normalizeAmount(current.total));
+  compare('tax', normalizeAmount(confirmed.tax), normalizeAmount(current.tax));
+  compare('shipping address', confirmed.shippingAddress, current.shippingAddress);
+  compare('payment method', confirmed.paymentLast4 || confirmed.paymentMethod, current.paymentLast4 || current.paymentMethod);
+  compare('delivery option', confirmed.deliveryOption, current.deliveryOption);
+
+  if (confirmed.items.length !== current.items.length) {
+    drift.push(`item count changed from ${confirmed.items.length} to ${current.items.length}`);
+  } else {
+    confirmed.items.forEach((item, i) => {
+      const other = current.items[i];
+      if (item.title !== other.title || item.quantity !== other.quantity || normalizeAmount(item.price) !== normalizeAmount(other.price)) {
+        drift.push(`item "${item.title}" changed (quantity ${item.quantity} → ${other.quantity}, price ${item.price} → ${other.price})`);
+      }
+    });
+  }
+
+  return drift;
+}
+
+export function newConfirmationToken(): string {
+  return crypto.randomBytes(16).toString('hex');
+}
+
+/**
+ * Compare confirmation tokens in constant time
+ */
+export function tokensMatch(expected: string, provided: string): boolean {
+  const a = Buffer.from(expected);
+  const b = Buffer.from(provided);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+/**
+ * Step 1: go to the final checkout page and return the order summary with a
+ * one-time confirmation token for place_order. Does not place the order.
+ */
+export async function prepareCheckout(): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+    await openCheckout(page);
+
+    const summary = await readCheckoutSummary(page);
+    const token = newConfirmationToken();
+    const expiresAt = Date.now() + CONFIRMATION_TTL_MS;
+    pendingCheckouts.set(currentProfile().name, { token, summary, expiresAt });
+
+    await saveAmazonSession(page).catch(() => {});
+
+    return {
+      success: true,
+      message: `Order ready for confirmation: ${summary.items.length} item(s), total ${summary.total}. ` +
+        `Review the summary with the user, then call place_order with the confirmation token and total within ${Math.round(CONFIRMATION_TTL_MS / 1000)} seconds.`,
+      data: {
+        summary,
+        confirmationToken: token,
+        expiresAt: new Date(expiresAt).toISOString(),
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to prepare checkout',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+/**
+ * Step 2: place the order prepared by prepareCheckout(). Requires the
+ * confirmation token and the total that was shown to the user, and aborts if
+ * anything on the final page differs from the confirmed summary.
+ */
+export async function placeOrder(params: { confirmationToken: string; expectedTotal: string }): Promise<OperationResult> {
+  try {
+    const profileName = currentProfile().name;
+    const pending = pendingCheckouts.get(profileName);
+    if (!pending) {
+      throw new Error('No checkout is pending. Call prepare_checkout first.');
+    }
+    if (!params?.confirmationToken || !tokensMatch(pending.token, params.confirmationToken)) {
+      throw new Error('Invalid confirmation token');
+    }
+    if (Date.now() > pending.expiresAt) {
+      pendingCheckouts.delete(profileName);
+      throw new Error('Confirmation token has expired. Call prepare_checkout again.');
+    }
+    if (!params.expectedTotal || normalizeAmount(params.expectedTotal) !== normalizeAmount(pending.summary.total)) {
+      throw new Error(`Expected total "${params.expectedTotal}" does not match the confirmed total "${pending.summary.total}"`);
+    }
+
+    // Tokens are single-use, whatever happens next
+    pendingCheckouts.delete(profileName);
+
+    // Other tools may have used the page since; reload checkout and re-verify
+    const page = await getPage();
+    await openCheckout(page);
+    const current = await readCheckoutSummary(page);
+
+    const drift = diffSummaries(pending.summary, current);
+    if (drift.length > 0) {
+      return {
+        success: false,
+        message: 'Order not placed: the order changed since it was confirmed. Call prepare_checkout again to review.',
+        error: drift.join('; '),
+        data: { confirmed: pending.summary, current },
+      };
+    }
+
+    const placeOrderSelector = await requireSelector(page, 'checkout.placeOrder', { timeout: 0, context: 'on the checkout page' });
+    await Promise.all([
+      page.waitForNavigation({ waitUntil: 'networkidle2', timeout: 60000 }),
+      page.click(placeOrderSelector),
+    ]);
+    await checkPage(page);
+
+    const confirmation = await findSelector(page, 'checkout.orderConfirmation', { timeout: 15000 });
+    const pageText = await page.evaluate(() => document.body?.innerText || '');
+    const orderId = pageText.match(/\b\d{3}-\d{7}-\d{7}\b/)?.[0];
+
+    await saveAmazonSession(page).catch(() => {});
+
+    // Count the order against spend caps even if confirmation is unclear - it may have gone through
+    recordSpend(parseAmount(current.total) || 0, orderId);
+
+    if (!confirmation && !orderId) {
+      return {
+        success: false,
+        message: 'Order was submitted but no confirmation page was detected. Check Your Orders before retrying.',
+        error: `Landed on ${page.url()}`,
+      };
+    }
+
+    return {
+      success: true,
+      message: orderId ? `Order placed (order #${orderId})` : 'Order placed',
+      data: { orderId, summary: current },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to place order',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
@@ -0,0 +1,309 @@
+import fs from 'fs';
+import { Page } from 'puppeteer';
+import { baseUrl } from './amazon';
+import { newPage } from './browser';
+import { checkPage, classifyPage, errorCode, navigate } from './page-guard';
+import { DEFAULT_PROFILE_NAME, currentProfile } from './profiles';
+import { onOperationInterrupt } from './scheduler';
+import { isLoggedIn, saveAmazonSession } from './session-manager';
+import { SelectorField, findSelector, requireElement, requireSelector } from './selectors';
+import { LoginStatus, LoginStep, OperationResult, SubmitLoginCodeParams } from './types';
+
+/**
+ * Guided sign-in for servers without a visible browser. login fills in the
+ * profile's email and password and stops at a one-time code or app approval
+ * page; submit_login_code finishes it. The sign-in tab stays open between
+ * the two calls, since Amazon ties the code to that page, until the sign-in
+ * expires or its operation times out or is cancelled.
+ */
+
+interface Credentials {
+  email: string;
+  password: string;
+}
+
+interface PendingLogin {
+  page: Page;
+  step: LoginStep;
+  startedAt: number;
+  expiryTimer: NodeJS.Timeout;  // Closes the tab if no code arrives in time
+}
+
+// Sign-in pages in a row before giving up (email, password, code, ...)
+const MAX_LOGIN_STEPS = 6;
+// How long a sign-in waits for submit_login_code
+const PENDING_LOGIN_TTL_MS = 10 * 60 * 1000;
+// How long one submit_login_code call waits for an app approval
+const APPROVAL_WAIT_MS = 60 * 1000;
+const APPROVAL_POLL_MS = 2000;
+
+// Sign-ins waiting for a code, by profile name
+const pendingLogins = new Map<string, PendingLogin>();
+
+/**
+ * Stop waiting for the profile's pending sign-in, if any. The caller decides
+ * whether its tab stays open.
+ */
+function takePending(profileName: string): PendingLogin | undefined {
+  const pending = pendingLogins.get(profileName);
+  if (pending) {
+    clearTimeout(pending.expiryTimer);
+    pendingLogins.delete(profileName);
+  }
+  return pending;
+}
+
+/**
+ * Close a sign-in tab, forgetting it if it was waiting for submit_login_code
+ */
+function discardPage(profileName: string, page: Page): void {
+  if (pendingLogins.get(profileName)?.page === page) {
+    takePending(profileName);
+  }
+  page.close().catch(() => {});
+}
+
+/**
+ * Email and password from the profile's credentials file, or AMAZON_EMAIL
+ * and AMAZON_PASSWORD for the default profile
+ */
+function readCredentials(): Credentials {
+  const profile = currentProfile();
+
+  if (fs.existsSync(profile.credentialsFile)) {
+    let credentials: Partial<Credentials>;
+    try {
+      credentials = JSON.parse(fs.readFileSync(profile.credentialsFile, 'utf-8'));
+    } catch (error) {
+      throw new Error(`Invalid credentials file ${profile.credentialsFile}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    if (!credentials.email || !credentials.password) {
+      throw new Error(`${profile.credentialsFile} needs both "email" and "password"`);
+    }
+    return { email: credentials.email, password: credentials.password };
+  }
+
+  if (profile.name === DEFAULT_PROFILE_NAME && process.env.AMAZON_EMAIL && process.env.AMAZON_PASSWORD) {
+    return { email: process.env.AMAZON_EMAIL, password: process.env.AMAZON_PASSWORD };
+  }
+
+  throw new Error(`No sign-in credentials for profile "${profile.name}": put { "email", "password" } in ${profile.credentialsFile}` +
+    (profile.name === DEFAULT_PROFILE_NAME ? ' or set AMAZON_EMAIL and AMAZON_PASSWORD' : ''));
+}
+
+async function textOf(page: Page, field: SelectorField): Promise<string> {
+  const selector = await findSelector(page, field);
+  return selector
+    ? page.$eval(selector, el => el.textContent?.replace(/\s+/g, ' ').trim() || '')
+    : '';
+}
+
+async function fill(page: Page, field: SelectorField, value: string): Promise<void> {
+  const selector = await requireSelector(page, field, { context: 'on the sign-in page' });
+  await page.click(selector, { count: 3 });
+  await page.type(selector, value, { delay: 30 });
+}
+
+async function submit(page: Page, field: SelectorField): Promise<void> {
+  const button = await requireElement(page, field, { context: 'on the sign-in page' });
+  await Promise.all([
+    page.waitForNavigation({ waitUntil: 'networkidle2' }),
+    button.click(),
+  ]);
+}
+
+/**
+ * Close the sign-in tab, unless it is waiting for submit_login_code
+ */
+async function closeUnlessPending(page: Page): Promise<void> {
+  if (pendingLogins.get(currentProfile().name)?.page !== page) {
+    await page.close().catch(() => {});
+  }
+}
+
+async function awaitStep(page: Page, step: LoginStep, rejection: string): Promise<OperationResult> {
+  const profileName = currentProfile().name;
+  takePending(profileName);
+  const expiryTimer = setTimeout(() => {
+    if (pendingLogins.get(profileName)?.page === page) {
+      console.log(`⚠️  Sign-in for profile "${profileName}" expired without a code; closed its tab`);
+      discardPage(profileName, page);
+    }
+  }, PENDING_LOGIN_TTL_MS);
+  // A sign-in nobody finishes must not keep the server alive
+  expiryTimer.unref();
+  pendingLogins.set(profileName, { page, step, startedAt: Date.now(), expiryTimer });
+  const prompt = await textOf(page, 'login.prompt');
+  const data: LoginStatus = { loggedIn: false, step, prompt: prompt || undefined };
+
+  const instructions = step === 'code'
+    ? `Amazon is asking for a one-time code${prompt ? ` (${prompt})` : ''}. Call submit_login_code with it.`
+    : 'Amazon is waiting for the sign-in to be approved in the Amazon app or from its notification. ' +
+      'Approve it, then call submit_login_code without a code.';
+  return {
+    success: true,
+    message: rejection ? `Amazon said: "${rejection}". ${instructions}` : instructions,
+    data,
+  };
+}
+
+/**
+ * Confirm the account is signed in from the home page and save the session
+ */
+async function finish(page: Page): Promise<OperationResult> {
+  await navigate(page, baseUrl());
+  if (!await isLoggedIn(page)) {
+    throw new Error(`Sign-in did not complete (ended up at ${page.url()})`);
+  }
+
+  await saveAmazonSession(page);
+  console.log(`✓ Logged in to Amazon for profile "${currentProfile().name}"`);
+  const data: LoginStatus = { loggedIn: true };
+  return {
+    success: true,
+    message: 'Logged in to Amazon. The session was saved and will persist across server restarts.',
+    data,
+  };
+}
+
+/**
+ * Fill in whichever sign-in page is showing until Amazon asks for a code or
+ * an approval, or lets us through
+ */
+async function advance(page: Page): Promise<OperationResult> {
+  for (let step = 0; step < MAX_LOGIN_STEPS; step++) {
+    // Handed to a person in a visible browser; headless, it fails with the captcha code
+    if ((await classifyPage(page))?.code === 'captcha') {
+      await checkPage(page);
+    }
+
+    const rejection = await textOf(page, 'login.error');
+    if (await findSelector(page, 'login.code')) {
+      return awaitStep(page, 'code', rejection);
+    }
+    if (await findSelector(page, 'login.approval')) {
+      return awaitStep(page, 'approval', rejection);
+    }
+    // Don't retry a rejected password; repeated attempts can lock the account
+    if (rejection) {
+      throw new Error(`Amazon rejected the sign-in: ${rejection}`);
+    }
+
+    if (await findSelector(page, 'login.password')) {
+      const { email, password } = readCredentials();
+      // Single-page forms ask for both
+      if (await findSelector(page, 'login.email')) {
+        await fill(page, 'login.email', email);
+      }
+      await fill(page, 'login.password', password);
+      await submit(page, 'login.submit');
+    } else if (await findSelector(page, 'login.email')) {
+      await fill(page, 'login.email', readCredentials().email);
+      await submit(page, 'login.continue');
+    } else {
+      return finish(page);
+    }
+  }
+
+  throw new Error(`Sign-in did not finish after ${MAX_LOGIN_STEPS} pages (stopped at ${page.url()})`);
+}
+
+/**
+ * Wait for the approval page to go away, for at most APPROVAL_WAIT_MS
+ */
+async function waitForApproval(page: Page): Promise<void> {
+  const deadline = Date.now() + APPROVAL_WAIT_MS;
+  while (Date.now() < deadline) {
+    // Throws while the page is navigating away after the approval
+    const waiting = await findSelector(page, 'login.approval').catch(() => 'navigating');
+    if (!waiting) {
+      return;
+    }
+    await new Promise(resolve => setTimeout(resolve, APPROVAL_POLL_MS));
+  }
+}
+
+/**
+ * Sign in with the profile's credentials in a new tab. Returns the step
+ * submit_login_code is waiting for when Amazon asks for a code or approval.
+ */
+export async function login(): Promise<OperationResult> {
+  const profileName = currentProfile().name;
+  let page: Page | undefined;
+
+  try {
+    // A new attempt replaces one still waiting for a code
+    await takePending(profileName)?.page.close().catch(() => {});
+
+    // Fail before opening anything when there is nothing to sign in with
+    readCredentials();
+
+    page = await newPage();
+    // The tab is not the operation's pooled one, so the scheduler can't close it
+    const loginPage = page;
+    onOperationInterrupt(() => discardPage(profileName, loginPage));
+    await navigate(page, baseUrl());
+    if (await isLoggedIn(page)) {
+      await saveAmazonSession(page);
+      const data: LoginStatus = { loggedIn: true };
+      return { success: true, message: 'Already logged in to Amazon', data };
+    }
+
+    await submit(page, 'nav.signIn');
+    return await advance(page);
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to log in to Amazon',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  } finally {
+    if (page) {
+      await closeUnlessPending(page);
+    }
+  }
+}
+
+/**
+ * Continue a sign-in that login() left waiting: enter the one-time code, or
+ * (without one) wait for the sign-in to be approved in the Amazon app
+ */
+export async function submitLoginCode(params: SubmitLoginCodeParams): Promise<OperationResult> {
+  const profileName = currentProfile().name;
+  const pending = pendingLogins.get(profileName);
+
+  try {
+    if (!pending || pending.page.isClosed()) {
+      throw new Error('No sign-in is waiting for a code; call login first');
+    }
+    if (Date.now() - pending.startedAt > PENDING_LOGIN_TTL_MS) {
+      discardPage(profileName, pending.page);
+      throw new Error('The sign-in waiting for a code has expired; call login again');
+    }
+    if (pending.step === 'code' && !params.code) {
+      throw new Error('Amazon is waiting for a one-time code; pass it as "code"');
+    }
+
+    takePending(profileName);
+    onOperationInterrupt(() => discardPage(profileName, pending.page));
+    if (pending.step === 'code') {
+      await fill(pending.page, 'login.code', params.code!);
+      await submit(pending.page, 'login.codeSubmit');
+    } else {
+      await waitForApproval(pending.page);
+    }
+    return await advance(pending.page);
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to complete the Amazon sign-in',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  } finally {
+    if (pending && !pending.page.isClosed()) {
+      await closeUnlessPending(pending.page);
+    }
+  }
+}
@@ -0,0 +1,148 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+} from '@modelcontextprotocol/sdk/types.js';
+import { TOOLS, callTool } from './tools';
+import { RESOURCE_TEMPLATES, listResources, onResourceChange, readResource } from './resources';
+import { PROMPTS, getPrompt } from './prompts';
+import { errorCode, withHumanActionListener } from './page-guard';
+
+export const SERVER_INFO = {
+  name: 'amazon-cart-server',
+  version: '1.0.0',
+};
+
+/**
+ * Create an MCP server with every tool, resource and prompt registered. The SDK binds
+ * a server to a single transport, so each client connection gets its own instance.
+ */
+export function createMcpServer(): Server {
+  const server = new Server(SERVER_INFO, {
+    capabilities: {
+      tools: {},
+      resources: { subscribe: true, listChanged: true },
+      prompts: {},
+      logging: {},
+    },
+  });
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    console.log('List resources request received');
+    return {
+      resources: listResources(),
+    };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+    resourceTemplates: RESOURCE_TEMPLATES,
+  }));
+
+  server.setRequestHandler(ReadResourceRequestSchema, async request => {
+    console.log('Read resource request:', request.params.uri);
+    return readResource(request.params.uri);
+  });
+
+  // URIs this client subscribed to with resources/subscribe
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(SubscribeRequestSchema, async request => {
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const stopListening = onResourceChange(change => {
+    // Notifications are best-effort; the client may be gone or not initialized yet
+    if (change.type === 'listChanged') {
+      server.sendResourceListChanged().catch(() => {});
+    } else if (subscriptions.has(change.uri)) {
+      server.sendResourceUpdated({ uri: change.uri }).catch(() => {});
+    }
+  });
+  server.onclose = stopListening;
+
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    console.log('List prompts request received');
+    return {
+      prompts: PROMPTS,
+    };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async request => {
+    console.log('Get prompt request:', request.params.name);
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    console.log('List tools request received');
+    return {
+      tools: TOOLS,
+    };
+  });
+
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    // Arguments stay out of the log: login codes and addresses pass through here
+    console.log('Tool call request:', name);
+
+    try {
+      // extra.signal fires when the client cancels the request or disconnects
+      const result = await withHumanActionListener(
+        // Tells the client to have someone solve a CAPTCHA or sign-in in the browser window
+        notice => {
+          extra.sendNotification({
+            method: 'notifications/message',
+            params: { level: 'warning', logger: SERVER_INFO.name, data: notice },
+          }).catch(() => {});
+        },
+        () => callTool(name, args, { signal: extra.signal }),
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify(result, null, 2),
+          },
+        ],
+      };
+    } catch (error) {
+      // Protocol errors (unknown tool, invalid params) go back as JSON-RPC errors
+      if (error instanceof McpError) {
+        throw error;
+      }
+      return {
+        content: [
+          {
+            type: 'text',
+            text: JSON.stringify({
+              success: false,
+              error: error instanceof Error ? error.message : String(error),
+              code: errorCode(error),
+            }, null, 2),
+          },
+        ],
+        isError: true,
+      };
+    }
+  });
+
+  server.oninitialized = () => {
+    console.log('Client initialized:', server.getClientVersion());
+  };
+
+  return server;
+}
@@ -0,0 +1,152 @@
+import { currentProfile } from './profiles';
+import { Money } from './types';
+
+/**
+ * Prices as Amazon shows them ("$1,234.56", "1.234,56 €", "￥1,234",
+ * "₹1,23,456.00") parsed into amounts in the profile's currency.
+ */
+
+// Used only to format amounts we compute (line totals, cart totals)
+const MARKETPLACE_LOCALES: Record<string, string> = {
+  'amazon.com': 'en-US',
+  'amazon.ca': 'en-CA',
+  'amazon.com.mx': 'es-MX',
+  'amazon.com.br': 'pt-BR',
+  'amazon.co.uk': 'en-GB',
+  'amazon.de': 'de-DE',
+  'amazon.fr': 'fr-FR',
+  'amazon.it': 'it-IT',
+  'amazon.es': 'es-ES',
+  'amazon.nl': 'nl-NL',
+  'amazon.se': 'sv-SE',
+  'amazon.pl': 'pl-PL',
+  'amazon.co.jp': 'ja-JP',
+  'amazon.in': 'en-IN',
+  'amazon.com.au': 'en-AU',
+  'amazon.sg': 'en-SG',
+  'amazon.ae': 'en-AE',
+};
+
+// An amount: thousands groups of exactly three digits with one separator
+// throughout ("1.234.567,89", "1 299,00"), Indian grouping ("1,23,456.00"),
+// or plain digits ("14.99"). "$14.99 2 offers" is 14.99, not 14.992.
+const NUMBER_PATTERN = /\d{1,3}([.,'\u00a0\u202f ])\d{3}(?:\1\d{3})*(?:[.,]\d+)?|\d{1,2}(?:,\d{2})+,\d{3}(?:\.\d+)?|\d+(?:[.,]\d+)?/g;
+
+const symbolCache = new Map<string, string[]>();
+
+/**
+ * Digits after the decimal mark in the currency's minor unit: 2 for USD, 0 for JPY
+ */
+export function fractionDigits(currency: string): number {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    return 2;
+  }
+}
+
+/**
+ * How a currency may be written next to an amount: its code and its
+ * symbols ("EUR", "€"; "USD", "$", "US$")
+ */
+function currencySymbols(currency: string): string[] {
+  let symbols = symbolCache.get(currency);
+  if (!symbols) {
+    const found = new Set([currency]);
+    for (const currencyDisplay of ['symbol', 'narrowSymbol'] as const) {
+      try {
+        const part = new Intl.NumberFormat('en', { style: 'currency', currency, currencyDisplay })
+          .formatToParts(0).find(p => p.type === 'currency');
+        if (part) found.add(part.value);
+      } catch {
+        // Unknown currency or no narrowSymbol support; the code is enough
+      }
+    }
+    symbols = Array.from(found);
+    symbolCache.set(currency, symbols);
+  }
+  return symbols;
+}
+
+function round(amount: number, currency: string): number {
+  return Number(amount.toFixed(fractionDigits(currency)));
+}
+
+/**
+ * Parse the amount in a display price, or null if there is none: the first
+ * one written next to the currency's symbol or code, else the first one
+ * (so "2 x $5.00" is 5). The last "." or "," is the decimal mark when both
+ * appear; a lone one is the decimal mark only when 1-2 digits follow it (so
+ * "1.234" is 1234), and never for currencies without minor units.
+ */
+export function parseAmount(display: string | undefined, currency = currentProfile().currency): number | null {
+  // NFKC turns the full-width "￥" into "¥"
+  const text = display?.normalize('NFKC') || '';
+  const matches = Array.from(text.matchAll(NUMBER_PATTERN));
+  if (matches.length === 0) return null;
+
+  const symbols = currencySymbols(currency);
+  const match = matches.find(m => {
+    const before = text.slice(0, m.index).trimEnd();
+    const after = text.slice(m.index! + m[0].length).trimStart();
+    return symbols.some(symbol => before.endsWith(symbol) || after.startsWith(symbol));
+  }) || matches[0];
+
+  const number = match[0].replace(/[\s']/g, '');
+  const lastMark = Math.max(number.lastIndexOf('.'), number.lastIndexOf(','));
+  let decimalMark = -1;
+
+  if (lastMark !== -1 && fractionDigits(currency) > 0) {
+    const mark = number[lastMark];
+    const other = mark === '.' ? ',' : '.';
+    const digitsAfter = number.length - lastMark - 1;
+    const lone = number.indexOf(mark) === lastMark && !number.includes(other);
+    if (number.includes(other) || (lone && digitsAfter <= 2)) {
+      decimalMark = lastMark;
+    }
+  }
+
+  const whole = (decimalMark === -1 ? number : number.slice(0, decimalMark)).replace(/[.,]/g, '');
+  const fraction = decimalMark === -1 ? '' : number.slice(decimalMark + 1);
+  const amount = parseFloat(fraction ? `${whole}.${fraction}` : whole);
+  return Number.isFinite(amount) ? amount : null;
+}
+
+/**
+ * Parse a display price into a Money value, or null if it has no amount
+ * (e.g. "Price not available")
+ */
+export function parseMoney(display: string | undefined, currency = currentProfile().currency): Money | null {
+  const amount = parseAmount(display, currency);
+  if (amount === null) return null;
+  return { amount, currency, display: display!.trim() };
+}
+
+/**
+ * A computed amount as Money, formatted the way the profile's marketplace does
+ */
+export function toMoney(amount: number, currency = currentProfile().currency): Money {
+  const rounded = round(amount, currency);
+  const locale = MARKETPLACE_LOCALES[currentProfile().domain] || 'en-US';
+  let display: string;
+  try {
+    display = new Intl.NumberFormat(locale, { style: 'currency', currency }).format(rounded);
+  } catch {
+    display = `${rounded.toFixed(2)} ${currency}`;
+  }
+  return { amount: rounded, currency, display };
+}
+
+/**
+ * Price times quantity, or null without a price
+ */
+export function multiplyMoney(price: Money | null, quantity: number): Money | null {
+  return price ? toMoney(price.amount * quantity, price.currency) : null;
+}
+
+/**
+ * Whether two amounts are equal once rounded to the currency's minor unit
+ */
+export function sameAmount(a: number, b: number, currency = currentProfile().currency): boolean {
+  return round(a, currency) === round(b, currency);
+}
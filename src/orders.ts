@@ -0,0 +1,425 @@
+import { Page } from 'puppeteer';
+import { getPage } from './browser';
+import { baseUrl } from './amazon';
+import { ListOrdersParams, Order, OperationResult, ShipmentStatus, TrackingEvent } from './types';
+import { saveAmazonSession } from './session-manager';
+import { findSelector, requireSelector, selectorMap } from './selectors';
+import { errorCode, navigate } from './page-guard';
+
+/**
+ * Order history, order details and package tracking, scraped from the
+ * Your Orders pages of the logged-in account.
+ */
+
+const ORDER_HISTORY_PATH = '/gp/css/order-history';
+const ORDER_DETAILS_PATH = '/gp/your-account/order-details';
+
+// Amazon lists 10 orders per history page
+const HISTORY_PAGE_SIZE = 10;
+const DEFAULT_ORDERS_LIMIT = 10;
+
+// History pages one list_orders call may load before returning what it has
+const MAX_HISTORY_PAGES = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "October 14, 2025" (US) or "14 October 2025" (most other marketplaces)
+const ORDER_DATE_PATTERN = /[A-Za-z]+\.? \d{1,2}, \d{4}|\d{1,2}\.? [A-Za-z]+\.? \d{4}/;
+
+const ORDER_FIELDS = [
+  'orders.orderId',
+  'orders.date',
+  'orders.total',
+  'orders.detailsLink',
+  'orders.shipment',
+  'orders.shipmentStatus',
+  'orders.shipmentDetail',
+  'orders.trackLink',
+  'orders.item',
+  'orders.itemLink',
+  'orders.itemQuantity',
+  'orders.itemPrice',
+  'orders.itemImage',
+  'orders.shippingAddress',
+  'orders.paymentMethod',
+] as const;
+
+type ScrapedOrder = Omit<Order, 'orderDateIso' | 'shipments'> & {
+  shipments: { status: string; detail: string; trackingUrl?: string; asins: string[] }[];
+};
+
+/**
+ * Format a date as YYYY-MM-DD in local time
+ */
+function isoDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+/**
+ * Parse an order date as shown on Amazon ("October 14, 2025", "14 October 2025",
+ * "Ordered on October 14, 2025") into YYYY-MM-DD, or undefined if unrecognized
+ */
+export function parseOrderDate(text: string): string | undefined {
+  const match = text.match(ORDER_DATE_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  const parsed = new Date(match[0].replace(/\./g, ''));
+  return isNaN(parsed.getTime()) ? undefined : isoDate(parsed);
+}
+
+/**
+ * Your Orders time filters covering a date range, newest first. Amazon only
+ * filters by fixed periods, so the exact range is applied to what they return.
+ */
+export function historyFilters(startDate: string, endDate: string, now = new Date()): string[] {
+  if (startDate >= isoDate(new Date(now.getTime() - 30 * DAY_MS))) {
+    return ['last30'];
+  }
+  if (startDate >= isoDate(new Date(now.getTime() - 3 * 30 * DAY_MS))) {
+    return ['months-3'];
+  }
+
+  const filters: string[] = [];
+  for (let year = Number(endDate.slice(0, 4)); year >= Number(startDate.slice(0, 4)); year--) {
+    filters.push(`year-${year}`);
+  }
+  return filters;
+}
+
+function historyUrl(filter: string | null, search: string | undefined, startIndex: number): string {
+  const url = new URL(`${baseUrl()}${ORDER_HISTORY_PATH}`);
+  if (search) {
+    url.searchParams.set('search', search);
+  }
+  if (filter) {
+    url.searchParams.set('orderFilter', filter);
+  }
+  if (startIndex > 0) {
+    url.searchParams.set('startIndex', String(startIndex));
+  }
+  return url.toString();
+}
+
+/**
+ * Scrape every order card matched by cardSelector on the loaded page
+ */
+async function readOrders(page: Page, cardSelector: string): Promise<Order[]> {
+  const fields = selectorMap([...ORDER_FIELDS]);
+
+  const scraped: ScrapedOrder[] = await page.evaluate((cardSelector: string, fields: Record<string, string[]>) => {
+    const clean = (value: string | null | undefined): string => value?.replace(/\s+/g, ' ').trim() || '';
+    const pick = (root: ParentNode, chain: string[]): Element | null => {
+      for (const selector of chain) {
+        const el = root.querySelector(selector);
+        if (el) return el;
+      }
+      return null;
+    };
+    const pickAll = (root: ParentNode, chain: string[]): Element[] => {
+      for (const selector of chain) {
+        const els = Array.from(root.querySelectorAll(selector));
+        if (els.length > 0) return els;
+      }
+      return [];
+    };
+    const asinFromUrl = (url: string | null | undefined): string | undefined => {
+      const match = url?.match(/\/(?:dp|gp\/product)\/([A-Z0-9]{10})/);
+      return match ? match[1] : undefined;
+    };
+    const readItem = (item: Element) => {
+      const link = pick(item, fields['orders.itemLink']);
+      const quantityText = clean(pick(item, fields['orders.itemQuantity'])?.textContent);
+      return {
+        title: clean(link?.textContent) || 'Unknown',
+        asin: asinFromUrl(link?.getAttribute('href')),
+        quantity: parseInt(quantityText.replace(/[^0-9]/g, ''), 10) || 1,
+        price: clean(pick(item, fields['orders.itemPrice'])?.textContent) || undefined,
+        imageUrl: pick(item, fields['orders.itemImage'])?.getAttribute('src') || undefined,
+      };
+    };
+
+    return Array.from(document.querySelectorAll(cardSelector)).map(card => {
+      const idText = clean(pick(card, fields['orders.orderId'])?.textContent) || clean(card.textContent);
+      const orderId = idText.match(/[A-Z0-9]{3}-\d{7}-\d{7}/)?.[0] || '';
+
+      // Addresses are multi-line lists; join the lines the way they read on the label
+      const addressEl = pick(card, fields['orders.shippingAddress']);
+      const addressLines = addressEl ? Array.from(addressEl.querySelectorAll('li')).map(li => clean(li.textContent)).filter(Boolean) : [];
+
+      const detailsLink = pick(card, fields['orders.detailsLink']) as HTMLAnchorElement | null;
+
+      return {
+        orderId,
+        orderDate: clean(pick(card, fields['orders.date'])?.textContent),
+        total: clean(pick(card, fields['orders.total'])?.textContent),
+        items: pickAll(card, fields['orders.item']).map(readItem),
+        shipments: pickAll(card, fields['orders.shipment']).map(shipment => ({
+          status: clean(pick(shipment, fields['orders.shipmentStatus'])?.textContent),
+          detail: clean(pick(shipment, fields['orders.shipmentDetail'])?.textContent),
+          trackingUrl: (pick(shipment, fields['orders.trackLink']) as HTMLAnchorElement | null)?.href || undefined,
+          asins: pickAll(shipment, fields['orders.item']).map(readItem).map(item => item.asin || '').filter(Boolean),
+        })),
+        shippingAddress: addressLines.join(', ') || clean(addressEl?.textContent) || undefined,
+        paymentMethod: clean(pick(card, fields['orders.paymentMethod'])?.textContent) || undefined,
+        detailsUrl: detailsLink?.href || location.href,
+      };
+    });
+  }, cardSelector, fields);
+
+  return scraped
+    .filter(order => order.orderId)
+    .map(order => ({
+      ...order,
+      // Drop labels like "Ordered on" around the date
+      orderDate: order.orderDate.match(ORDER_DATE_PATTERN)?.[0] || order.orderDate,
+      orderDateIso: parseOrderDate(order.orderDate),
+      shipments: order.shipments.map(shipment => ({
+        status: shipment.status || 'Unknown',
+        detail: shipment.detail || undefined,
+        delivered: /delivered/i.test(shipment.status),
+        trackingUrl: shipment.trackingUrl,
+        asins: shipment.asins,
+        events: [],
+      })),
+    }));
+}
+
+/**
+ * Load the order details page and scrape it as a single order
+ */
+async function openOrder(page: Page, orderId: string): Promise<Order> {
+  const url = new URL(`${baseUrl()}${ORDER_DETAILS_PATH}`);
+  url.searchParams.set('orderID', orderId);
+  await navigate(page, url.toString());
+
+  const cardSelector = await requireSelector(page, 'orders.detailsCard', { timeout: 10000, context: `for order ${orderId}` });
+  const [order] = await readOrders(page, cardSelector);
+  if (!order) {
+    throw new Error(`Order ${orderId} not found`);
+  }
+  return { ...order, detailsUrl: page.url() };
+}
+
+/**
+ * Scrape the loaded package tracking page
+ */
+async function readTracking(page: Page): Promise<Omit<ShipmentStatus, 'asins' | 'trackingUrl'>> {
+  const fields = selectorMap([
+    'tracking.status',
+    'tracking.detail',
+    'tracking.carrier',
+    'tracking.trackingId',
+    'tracking.event',
+    'tracking.eventTime',
+    'tracking.eventMessage',
+    'tracking.eventLocation',
+  ]);
+
+  const tracking = await page.evaluate((fields: Record<string, string[]>) => {
+    const clean = (value: string | null | undefined): string => value?.replace(/\s+/g, ' ').trim() || '';
+    const pick = (root: ParentNode, chain: string[]): Element | null => {
+      for (const selector of chain) {
+        const el = root.querySelector(selector);
+        if (el) return el;
+      }
+      return null;
+    };
+    const pickAll = (chain: string[]): Element[] => {
+      for (const selector of chain) {
+        const els = Array.from(document.querySelectorAll(selector));
+        if (els.length > 0) return els;
+      }
+      return [];
+    };
+
+    const events: TrackingEvent[] = pickAll(fields['tracking.event'])
+      .map(row => ({
+        time: clean(pick(row, fields['tracking.eventTime'])?.textContent),
+        message: clean(pick(row, fields['tracking.eventMessage'])?.textContent),
+        location: clean(pick(row, fields['tracking.eventLocation'])?.textContent) || undefined,
+      }))
+      .filter(event => event.message);
+
+    return {
+      status: clean(pick(document, fields['tracking.status'])?.textContent),
+      detail: clean(pick(document, fields['tracking.detail'])?.textContent) || undefined,
+      carrier: clean(pick(document, fields['tracking.carrier'])?.textContent).replace(/^(?:Shipped|Delivered) (?:with|by)\s+/i, '') || undefined,
+      trackingId: clean(pick(document, fields['tracking.trackingId'])?.textContent).replace(/^Tracking ID:?\s*/i, '') || undefined,
+      events,
+    };
+  }, fields);
+
+  if (!tracking.status) {
+    throw new Error(`Could not read the tracking page (${page.url()})`);
+  }
+
+  return {
+    ...tracking,
+    delivered: /delivered/i.test(tracking.status),
+  };
+}
+
+/**
+ * Start of a date range reaching the given number of (30-day) months back from endDate
+ */
+export function monthsBefore(endDate: string, months: number): string {
+  return isoDate(new Date(Date.parse(`${endDate}T00:00:00`) - months * 30 * DAY_MS));
+}
+
+export function today(): string {
+  return isoDate(new Date());
+}
+
+/**
+ * Read orders from Your Orders, newest first, until more than maxOrders
+ * match or MAX_HISTORY_PAGES pages have been loaded. truncated means the page
+ * limit was hit before the history ran out.
+ */
+export async function scanOrderHistory(
+  page: Page,
+  range: { startDate: string; endDate: string; search?: string },
+  maxOrders: number,
+): Promise<{ orders: Order[]; truncated: boolean }> {
+  const { startDate, endDate, search } = range;
+
+  // Search covers every year at once; otherwise walk the period filters
+  const filters: (string | null)[] = search ? [null] : historyFilters(startDate, endDate);
+  const matched: Order[] = [];
+  const seen = new Set<string>();
+  let pagesLoaded = 0;
+
+  for (const filter of filters) {
+    for (let startIndex = 0; ; startIndex += HISTORY_PAGE_SIZE) {
+      if (pagesLoaded >= MAX_HISTORY_PAGES) {
+        return { orders: matched, truncated: true };
+      }
+
+      await navigate(page, historyUrl(filter, search, startIndex));
+      pagesLoaded++;
+
+      const cardSelector = await findSelector(page, 'orders.card', { timeout: 5000 });
+      if (!cardSelector) {
+        break;
+      }
+
+      const orders = await readOrders(page, cardSelector);
+      for (const order of orders) {
+        // Orders with an unreadable date are kept rather than silently dropped
+        const inRange = !order.orderDateIso || (order.orderDateIso >= startDate && order.orderDateIso <= endDate);
+        if (inRange && !seen.has(order.orderId)) {
+          seen.add(order.orderId);
+          matched.push(order);
+        }
+      }
+
+      if (matched.length > maxOrders) {
+        return { orders: matched, truncated: false };
+      }
+      if (orders.length < HISTORY_PAGE_SIZE || !(await findSelector(page, 'orders.nextPage'))) {
+        break;
+      }
+    }
+  }
+
+  return { orders: matched, truncated: false };
+}
+
+export async function listOrders(params: ListOrdersParams = {}): Promise<OperationResult> {
+  try {
+    const limit = params.limit || DEFAULT_ORDERS_LIMIT;
+    const pageNumber = params.page || 1;
+    const endDate = params.endDate || today();
+    const startDate = params.startDate || monthsBefore(endDate, 3);
+    if (startDate > endDate) {
+      throw new Error('startDate must not be after endDate');
+    }
+
+    const page = await getPage();
+
+    // One past the requested page tells us whether there are more
+    const wanted = pageNumber * limit;
+    const { orders: matched, truncated } = await scanOrderHistory(page, { startDate, endDate, search: params.search }, wanted);
+
+    await saveAmazonSession(page).catch(() => {});
+
+    const results = matched.slice((pageNumber - 1) * limit, wanted);
+    const hasMore = matched.length > wanted || truncated;
+
+    return {
+      success: true,
+      message: `Found ${results.length} order(s) between ${startDate} and ${endDate}` +
+        `${params.search ? ` matching "${params.search}"` : ''} (page ${pageNumber}${hasMore ? ', more available' : ''})`,
+      data: {
+        orders: results,
+        page: pageNumber,
+        hasMore,
+        startDate,
+        endDate,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to list orders',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+export async function getOrder(orderId: string): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+    const order = await openOrder(page, orderId);
+
+    return {
+      success: true,
+      message: `Order ${order.orderId} placed ${order.orderDate}: ${order.items.length} item(s), total ${order.total}`,
+      data: order,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to get order',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+export async function trackOrder(orderId: string): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+    const order = await openOrder(page, orderId);
+
+    const shipments: ShipmentStatus[] = [];
+    for (const shipment of order.shipments) {
+      if (!shipment.trackingUrl) {
+        shipments.push(shipment);
+        continue;
+      }
+      await navigate(page, shipment.trackingUrl);
+      shipments.push({ ...shipment, ...(await readTracking(page)) });
+    }
+
+    if (shipments.length === 0) {
+      throw new Error(`Order ${orderId} has no shipments to track`);
+    }
+
+    const summary = shipments.map(s => s.status).join('; ');
+    return {
+      success: true,
+      message: `Order ${orderId}: ${summary}`,
+      data: { orderId, shipments },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to track order',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
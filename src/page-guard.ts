@@ -0,0 +1,182 @@
+import { Page } from 'puppeteer';
+import { AsyncLocalStorage } from 'async_hooks';
+import { isHeadless } from './browser';
+import { currentProfile } from './profiles';
+import { pauseOperationTimeout } from './scheduler';
+import { SelectorField, findSelector } from './selectors';
+
+/**
+ * Detects the pages Amazon serves instead of the one requested - bot checks,
+ * sign-in and 2FA walls, error ("dog") pages and redirects to another
+ * marketplace - and turns them into a BlockedPageError with a code. With a
+ * visible browser, CAPTCHA and sign-in pages are handed to a person instead:
+ * the MCP client is told, and the operation resumes once the page clears.
+ */
+
+export type BlockedPageCode = 'captcha' | 'login_required' | 'two_factor' | 'dog_page' | 'region_redirect';
+
+export interface HumanActionNotice {
+  code: BlockedPageCode;
+  message: string;
+  url: string;
+  timeoutSeconds: number;
+}
+
+const HUMAN_ACTION_TIMEOUT_MS = (Number(process.env.HUMAN_ACTION_TIMEOUT_SECONDS) || 300) * 1000;
+const HUMAN_ACTION_POLL_MS = 1000;
+
+// A person can get past these in a visible browser; the rest need a different request
+const HANDOFF_CODES = new Set<BlockedPageCode>(['captcha', 'login_required', 'two_factor']);
+
+// Checked in order: 2FA pages also carry sign-in markup
+const BLOCKERS: { code: BlockedPageCode; path?: RegExp; field: SelectorField; message: string }[] = [
+  {
+    code: 'captcha',
+    path: /\/errors\/validateCaptcha/,
+    field: 'blocker.captcha',
+    message: 'Amazon is showing a CAPTCHA (bot check)',
+  },
+  {
+    code: 'two_factor',
+    path: /\/ap\/(mfa|cvf)/,
+    field: 'blocker.twoFactor',
+    message: 'Amazon is asking for a verification code',
+  },
+  {
+    code: 'login_required',
+    path: /\/ap\/signin/,
+    field: 'blocker.signIn',
+    message: 'Not logged in to Amazon; sign in with the login tool and try again',
+  },
+  {
+    code: 'dog_page',
+    field: 'blocker.dogPage',
+    message: 'Amazon returned an error page',
+  },
+];
+
+/**
+ * Raised when Amazon shows a blocking page instead of the one requested
+ */
+export class BlockedPageError extends Error {
+  constructor(public readonly code: BlockedPageCode, message: string, public readonly url: string) {
+    super(`${message} (${url})`);
+    this.name = 'BlockedPageError';
+  }
+}
+
+/**
+ * Machine-readable code for an OperationResult, when the error has one
+ */
+export function errorCode(error: unknown): BlockedPageCode | undefined {
+  return error instanceof BlockedPageError ? error.code : undefined;
+}
+
+// Told when an operation is waiting for a person (bound per tool call by the MCP server)
+const humanActionScope = new AsyncLocalStorage<(notice: HumanActionNotice) => void>();
+
+/**
+ * Run fn with listener called whenever it pauses for human action
+ */
+export function withHumanActionListener<T>(listener: (notice: HumanActionNotice) => void, fn: () => Promise<T>): Promise<T> {
+  return humanActionScope.run(listener, fn);
+}
+
+function hostOf(url: string): string {
+  return new URL(url).hostname.replace(/^www\./, '');
+}
+
+/**
+ * What kind of blocking page is loaded, or null for a normal page
+ */
+export async function classifyPage(page: Page, status?: number): Promise<{ code: BlockedPageCode; message: string } | null> {
+  const url = page.url();
+  if (!/^https?:/.test(url)) {
+    return null;
+  }
+
+  const { pathname } = new URL(url);
+  for (const blocker of BLOCKERS) {
+    if (blocker.path?.test(pathname) || await findSelector(page, blocker.field)) {
+      return { code: blocker.code, message: blocker.message };
+    }
+  }
+
+  if (status !== undefined && status >= 500) {
+    return { code: 'dog_page', message: `Amazon returned an error page (HTTP ${status})` };
+  }
+
+  const expected = hostOf(currentProfile().baseUrl);
+  if (hostOf(url) !== expected && /amazon\./.test(hostOf(url))) {
+    return { code: 'region_redirect', message: `Amazon redirected from ${expected} to ${hostOf(url)}` };
+  }
+
+  return null;
+}
+
+/**
+ * Wait for a person to clear the page in the visible browser, with the
+ * operation's own timeout stopped meanwhile
+ */
+async function waitForHuman(page: Page, code: BlockedPageCode, message: string): Promise<void> {
+  const notice: HumanActionNotice = {
+    code,
+    message: `${message}. Complete it in the browser window; the request continues once the page clears.`,
+    url: page.url(),
+    timeoutSeconds: HUMAN_ACTION_TIMEOUT_MS / 1000,
+  };
+  console.log(`⚠️  Human action needed: ${notice.message} (${notice.url})`);
+  humanActionScope.getStore()?.(notice);
+  await page.bringToFront().catch(() => {});
+
+  const resume = pauseOperationTimeout();
+  try {
+    const deadline = Date.now() + HUMAN_ACTION_TIMEOUT_MS;
+    while (Date.now() < deadline) {
+      await new Promise(resolve => setTimeout(resolve, HUMAN_ACTION_POLL_MS));
+      if (page.isClosed()) {
+        throw new Error('Browser operation was cancelled');
+      }
+      if (!await classifyPage(page).catch(() => null)) {
+        console.log('✓ Page cleared, continuing');
+        return;
+      }
+    }
+    throw new BlockedPageError(code, `${message}; nobody cleared it within ${HUMAN_ACTION_TIMEOUT_MS / 1000}s`, page.url());
+  } finally {
+    resume();
+  }
+}
+
+/**
+ * Throw a BlockedPageError if a blocking page is loaded. In a visible browser
+ * CAPTCHA, sign-in and 2FA pages are handed to a person first; once cleared,
+ * retryUrl (the page that was asked for) is loaded again if we're not on it.
+ */
+export async function checkPage(page: Page, options: { status?: number; retryUrl?: string } = {}): Promise<void> {
+  const blocked = await classifyPage(page, options.status);
+  if (!blocked) {
+    return;
+  }
+  if (isHeadless() || !HANDOFF_CODES.has(blocked.code)) {
+    throw new BlockedPageError(blocked.code, blocked.message, page.url());
+  }
+
+  await waitForHuman(page, blocked.code, blocked.message);
+
+  if (options.retryUrl && page.url() !== options.retryUrl) {
+    const response = await page.goto(options.retryUrl, { waitUntil: 'networkidle2' });
+    const stillBlocked = await classifyPage(page, response?.status());
+    if (stillBlocked) {
+      throw new BlockedPageError(stillBlocked.code, stillBlocked.message, page.url());
+    }
+  }
+}
+
+/**
+ * Load a URL and make sure Amazon served it rather than a blocking page
+ */
+export async function navigate(page: Page, url: string): Promise<void> {
+  const response = await page.goto(url, { waitUntil: 'networkidle2' });
+  await checkPage(page, { status: response?.status(), retryUrl: url });
+}
@@ -0,0 +1,501 @@
+import fs from 'fs';
+import path from 'path';
+import { getCart, getProductDetails, getVariantDetails, searchProducts } from './amazon';
+import { pendingCheckoutTotal } from './checkout';
+import { parseAmount } from './money';
+import { currentProfile } from './profiles';
+import { pendingSubscriptionTotal } from './subscriptions';
+import {
+  AddItemsParams,
+  AddToCartParams,
+  BuyAgainParams,
+  CartItem,
+  OperationResult,
+  ProductDetails,
+  SearchParams,
+  SubscribeParams,
+  UpdateSubscriptionParams,
+} from './types';
+
+/**
+ * Spending guardrails for cart and order tools.
+ *
+ * Rules come from the profile's JSON policy file (POLICY_FILE, default
+ * ./policy.json), re-read whenever it changes. With no policy file every
+ * call is allowed. Each profile keeps its own spend ledger.
+ */
+
+export interface SpendingPolicy {
+  maxUnitPrice?: number;          // Per-item price limit
+  maxCartSubtotal?: number;       // Cart subtotal after the change
+  maxQuantityPerItem?: number;
+  asinAllowlist?: string[];       // When non-empty, only these ASINs may be added
+  asinDenylist?: string[];
+  blockedCategories?: string[];   // Matched against product breadcrumbs
+  blockedKeywords?: string[];     // Matched against search queries and product titles
+  dailySpendCap?: number;         // Placed orders in the last 24 hours
+  weeklySpendCap?: number;        // Placed orders in the last 7 days
+}
+
+export interface PolicyViolation {
+  rule: keyof SpendingPolicy;
+  message: string;
+  limit?: number | string;
+  actual?: number | string;
+}
+
+interface SpendRecord {
+  timestamp: string;
+  amount: number;
+  orderId?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keyed by policy file, since profiles may share one
+const policyCache = new Map<string, { mtimeMs: number; policy: SpendingPolicy }>();
+
+function ledgerFile(): string {
+  return path.join(currentProfile().userDataDir, 'spend-ledger.json');
+}
+
+/**
+ * Load the current profile's policy file, re-reading only when it changes
+ */
+export function loadPolicy(): SpendingPolicy {
+  const policyFile = currentProfile().policyFile;
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(policyFile).mtimeMs;
+  } catch {
+    policyCache.delete(policyFile);
+    return {};
+  }
+
+  const cached = policyCache.get(policyFile);
+  if (cached && cached.mtimeMs === mtimeMs) {
+    return cached.policy;
+  }
+
+  try {
+    const policy = JSON.parse(fs.readFileSync(policyFile, 'utf-8')) as SpendingPolicy;
+    policyCache.set(policyFile, { mtimeMs, policy });
+    console.log(`✓ Loaded spending policy from ${policyFile}`);
+    return policy;
+  } catch (error) {
+    // A broken policy file must not silently disable the guardrails
+    throw new Error(`Invalid policy file ${policyFile}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+function readLedger(): SpendRecord[] {
+  try {
+    return JSON.parse(fs.readFileSync(ledgerFile(), 'utf-8')) as SpendRecord[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Record a placed order against the daily/weekly spend caps
+ */
+export function recordSpend(amount: number, orderId?: string): void {
+  try {
+    const ledger = readLedger().filter(r => Date.now() - Date.parse(r.timestamp) < 7 * DAY_MS);
+    ledger.push({ timestamp: new Date().toISOString(), amount, orderId });
+    const file = ledgerFile();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(ledger, null, 2));
+  } catch (error) {
+    console.error('Failed to record spend:', error);
+  }
+}
+
+/**
+ * Total spent on placed orders within the given window
+ */
+export function getSpend(windowMs: number): number {
+  const since = Date.now() - windowMs;
+  return readLedger()
+    .filter(r => Date.parse(r.timestamp) >= since)
+    .reduce((sum, r) => sum + r.amount, 0);
+}
+
+function includesIgnoreCase(haystack: string, needles: string[] | undefined): string | undefined {
+  const lower = haystack.toLowerCase();
+  return needles?.find(needle => lower.includes(needle.toLowerCase()));
+}
+
+function checkAsin(policy: SpendingPolicy, asin: string | undefined): PolicyViolation | null {
+  if (!asin) return null;
+
+  if (policy.asinDenylist?.includes(asin)) {
+    return { rule: 'asinDenylist', message: `ASIN ${asin} is on the deny list`, actual: asin };
+  }
+  if (policy.asinAllowlist && policy.asinAllowlist.length > 0 && !policy.asinAllowlist.includes(asin)) {
+    return { rule: 'asinAllowlist', message: `ASIN ${asin} is not on the allow list`, actual: asin };
+  }
+  return null;
+}
+
+function checkQuantity(policy: SpendingPolicy, quantity: number): PolicyViolation | null {
+  if (policy.maxQuantityPerItem !== undefined && quantity > policy.maxQuantityPerItem) {
+    return {
+      rule: 'maxQuantityPerItem',
+      message: `Quantity ${quantity} exceeds the per-item limit of ${policy.maxQuantityPerItem}`,
+      limit: policy.maxQuantityPerItem,
+      actual: quantity,
+    };
+  }
+  return null;
+}
+
+function checkKeywords(policy: SpendingPolicy, text: string | undefined, what: string): PolicyViolation | null {
+  const keyword = text ? includesIgnoreCase(text, policy.blockedKeywords) : undefined;
+  if (keyword) {
+    return { rule: 'blockedKeywords', message: `${what} matches blocked keyword "${keyword}"`, actual: keyword };
+  }
+  return null;
+}
+
+function checkProduct(policy: SpendingPolicy, product: ProductDetails): PolicyViolation | null {
+  const asinViolation = checkAsin(policy, product.asin);
+  if (asinViolation) return asinViolation;
+
+  const keywordViolation = checkKeywords(policy, product.title, 'Product title');
+  if (keywordViolation) return keywordViolation;
+
+  const category = product.categories.find(c => includesIgnoreCase(c, policy.blockedCategories));
+  if (category) {
+    return { rule: 'blockedCategories', message: `Product category "${category}" is blocked`, actual: category };
+  }
+
+  const price = parseAmount(product.price);
+  if (policy.maxUnitPrice !== undefined) {
+    if (price === null) {
+      return { rule: 'maxUnitPrice', message: 'Product price could not be determined', limit: policy.maxUnitPrice };
+    }
+    if (price > policy.maxUnitPrice) {
+      return {
+        rule: 'maxUnitPrice',
+        message: `Unit price ${product.price} exceeds the limit of ${policy.maxUnitPrice}`,
+        limit: policy.maxUnitPrice,
+        actual: price,
+      };
+    }
+  }
+  return null;
+}
+
+async function loadCartItems(): Promise<{ items: CartItem[]; savedForLater: CartItem[]; subtotal: number }> {
+  const cart = await getCart();
+  if (!cart.success) {
+    throw new Error(`Could not read cart to check policy: ${cart.error}`);
+  }
+  return {
+    items: cart.data.items || [],
+    savedForLater: cart.data.savedForLater || [],
+    subtotal: cart.data.subtotal?.amount || 0,
+  };
+}
+
+function checkSubtotal(policy: SpendingPolicy, subtotal: number): PolicyViolation | null {
+  if (policy.maxCartSubtotal !== undefined && subtotal > policy.maxCartSubtotal) {
+    return {
+      rule: 'maxCartSubtotal',
+      message: `Cart subtotal would be ${subtotal.toFixed(2)}, over the limit of ${policy.maxCartSubtotal}`,
+      limit: policy.maxCartSubtotal,
+      actual: Number(subtotal.toFixed(2)),
+    };
+  }
+  return null;
+}
+
+function checkSpendCaps(policy: SpendingPolicy, amount: number): PolicyViolation | null {
+  const caps: [keyof SpendingPolicy, number | undefined, number, string][] = [
+    ['dailySpendCap', policy.dailySpendCap, DAY_MS, 'daily'],
+    ['weeklySpendCap', policy.weeklySpendCap, 7 * DAY_MS, 'weekly'],
+  ];
+
+  for (const [rule, cap, windowMs, label] of caps) {
+    if (cap === undefined) continue;
+    const spent = getSpend(windowMs);
+    if (spent + amount > cap) {
+      return {
+        rule,
+        message: `Order of ${amount.toFixed(2)} would bring ${label} spend to ${(spent + amount).toFixed(2)}, over the cap of ${cap}`,
+        limit: cap,
+        actual: Number((spent + amount).toFixed(2)),
+      };
+    }
+  }
+  return null;
+}
+
+/**
+ * Spend caps for an order about to be placed. An order whose total can't be
+ * determined is refused while either cap is set.
+ */
+function checkOrderTotal(policy: SpendingPolicy, total: number | null, what: string): PolicyViolation | null {
+  if (total !== null) {
+    return checkSpendCaps(policy, total);
+  }
+  const rule = policy.dailySpendCap !== undefined ? 'dailySpendCap' : policy.weeklySpendCap !== undefined ? 'weeklySpendCap' : null;
+  return rule ? { rule, message: `${what} could not be determined`, limit: policy[rule] } : null;
+}
+
+/**
+ * Resolve the product an add_to_cart call refers to, following the same
+ * "first search result" rule as addToCart() for queries, and the same
+ * twister selection when a variation is given
+ */
+async function resolveProduct(args: { asin?: string; query?: string; variation?: Record<string, string> }): Promise<ProductDetails> {
+  let asin = args.asin;
+  if (!asin && args.query) {
+    const search = await searchProducts({ query: args.query, limit: 1 });
+    asin = search.success ? search.data[0]?.asin : undefined;
+  }
+  if (!asin) {
+    throw new Error('Could not resolve product to check policy');
+  }
+
+  const product = args.variation && Object.keys(args.variation).length > 0
+    ? await getVariantDetails(asin, args.variation)
+    : await getProductDetails(asin);
+  if (!product.success) {
+    throw new Error(`Could not load product to check policy: ${product.error}`);
+  }
+  return product.data;
+}
+
+function needsProductDetails(policy: SpendingPolicy): boolean {
+  return policy.maxUnitPrice !== undefined
+    || policy.maxCartSubtotal !== undefined
+    || !!policy.blockedCategories?.length
+    || !!policy.blockedKeywords?.length
+    || !!policy.asinAllowlist?.length
+    || !!policy.asinDenylist?.length;
+}
+
+/**
+ * Check adding one or more products to the cart: each product's own rules
+ * first, then quantities (counting what is already in the cart) and the
+ * subtotal with every addition included
+ */
+async function checkAdditions(
+  policy: SpendingPolicy,
+  additions: { asin?: string; query?: string; variation?: Record<string, string>; quantity: number }[],
+): Promise<PolicyViolation | null> {
+  // A list may name the same item more than once; the cart merges them
+  const requested = new Map<string, number>();
+  for (const addition of additions) {
+    const key = addition.variation ? null : addition.asin || addition.query?.trim().toLowerCase();
+    const quantity = key ? (requested.get(key) || 0) + addition.quantity : addition.quantity;
+    if (key) requested.set(key, quantity);
+
+    const early = checkQuantity(policy, quantity)
+      // With a variation the child ASIN is only known once the product is resolved
+      || (addition.variation ? null : checkAsin(policy, addition.asin))
+      || checkKeywords(policy, addition.query, 'Search query');
+    if (early) return early;
+  }
+
+  const checksCart = policy.maxQuantityPerItem !== undefined || policy.maxCartSubtotal !== undefined;
+  if (!needsProductDetails(policy) && !checksCart) return null;
+
+  const resolved: { asin: string; price: number; quantity: number }[] = [];
+  for (const addition of additions) {
+    // The cart is keyed by ASIN, so a plain ASIN needs no product page for the quantity check
+    if (!needsProductDetails(policy) && addition.asin && !addition.variation) {
+      resolved.push({ asin: addition.asin, price: 0, quantity: addition.quantity });
+      continue;
+    }
+    const product = await resolveProduct(addition);
+    const productViolation = checkProduct(policy, product);
+    if (productViolation) return productViolation;
+    resolved.push({ asin: product.asin, price: parseAmount(product.price) || 0, quantity: addition.quantity });
+  }
+  if (!checksCart) return null;
+
+  const cart = await loadCartItems();
+  const quantities = new Map(cart.items.map(item => [item.asin, item.quantity]));
+  let subtotal = cart.subtotal;
+  for (const { asin, price, quantity } of resolved) {
+    const total = (quantities.get(asin) || 0) + quantity;
+    const quantityViolation = checkQuantity(policy, total);
+    if (quantityViolation) return quantityViolation;
+    quantities.set(asin, total);
+    subtotal += price * quantity;
+  }
+  return checkSubtotal(policy, subtotal);
+}
+
+// Arguments of the tools the policy checks, by tool name
+interface CheckedToolArgs {
+  search_amazon: SearchParams;
+  add_to_cart: AddToCartParams;
+  add_items_to_cart: AddItemsParams;
+  buy_again: BuyAgainParams;
+  update_subscription: UpdateSubscriptionParams;
+  subscribe_and_save: SubscribeParams;
+  update_cart_quantity: { asin: string; quantity: number };
+  move_to_cart: { asin: string };
+  prepare_checkout: Record<string, never>;
+  place_order: { confirmationToken: string; expectedTotal: string };
+}
+
+// A switch on toolName narrows args to that tool's arguments
+type ToolCall = { [Name in keyof CheckedToolArgs]: { toolName: Name; args: CheckedToolArgs[Name] } }[keyof CheckedToolArgs];
+
+async function evaluate(policy: SpendingPolicy, call: ToolCall): Promise<PolicyViolation | null> {
+  const { toolName, args } = call;
+  switch (toolName) {
+    case 'search_amazon':
+      return checkKeywords(policy, args.query, 'Search query');
+
+    case 'add_to_cart':
+      return checkAdditions(policy, [{
+        asin: args.asin,
+        query: args.query,
+        variation: args.variation,
+        quantity: Number(args.quantity) || 1,
+      }]);
+
+    case 'add_items_to_cart': {
+      const items = args.items || [];
+      // A dry run only searches, so it gets the same keyword check as search_amazon
+      if (args.dryRun) {
+        for (const item of items) {
+          const violation = checkKeywords(policy, item.query, 'Search query');
+          if (violation) return violation;
+        }
+        return null;
+      }
+      return checkAdditions(policy, items.map(item => ({ asin: item.asin, query: item.query, quantity: Number(item.quantity) || 1 })));
+    }
+
+    case 'buy_again': {
+      // Listing is read-only; only the "add" form changes the cart
+      const add = args.add || [];
+      if (add.length === 0) return null;
+      return checkAdditions(policy, add.map(item => ({ asin: item.asin, quantity: Number(item.quantity) || 1 })));
+    }
+
+    case 'update_subscription':
+      return args.quantity === undefined ? null : checkQuantity(policy, Number(args.quantity));
+
+    case 'subscribe_and_save': {
+      // A preview changes nothing; confirming places the first delivery's order
+      if (!args.confirm) return null;
+      const quantity = Number(args.quantity) || 1;
+      const early = checkQuantity(policy, quantity) || checkAsin(policy, args.asin);
+      if (early) return early;
+
+      if (needsProductDetails(policy)) {
+        const productViolation = checkProduct(policy, await resolveProduct({ asin: args.asin }));
+        if (productViolation) return productViolation;
+      }
+      // The Subscribe & Save price the preview quoted, not the product's list price
+      return checkOrderTotal(policy, pendingSubscriptionTotal(args.asin), 'Subscribe & Save order total (preview it first)');
+    }
+
+    case 'update_cart_quantity': {
+      const quantity = Number(args.quantity) || 0;
+      const quantityViolation = checkQuantity(policy, quantity);
+      if (quantityViolation || policy.maxCartSubtotal === undefined) return quantityViolation;
+
+      const cart = await loadCartItems();
+      const item = cart.items.find(i => i.asin === args.asin);
+      if (!item) return null;
+      const unitPrice = item.price?.amount || 0;
+      return checkSubtotal(policy, cart.subtotal + unitPrice * (quantity - item.quantity));
+    }
+
+    case 'move_to_cart': {
+      const asinViolation = checkAsin(policy, args.asin);
+      if (asinViolation || policy.maxCartSubtotal === undefined) return asinViolation;
+
+      const cart = await loadCartItems();
+      const saved = cart.savedForLater.find(i => i.asin === args.asin);
+      if (!saved) return null;
+      return checkQuantity(policy, saved.quantity)
+        || checkSubtotal(policy, cart.subtotal + (saved.price?.amount || 0) * saved.quantity);
+    }
+
+    case 'prepare_checkout': {
+      if (policy.maxCartSubtotal === undefined && policy.dailySpendCap === undefined && policy.weeklySpendCap === undefined) {
+        return null;
+      }
+      const cart = await loadCartItems();
+      return checkSubtotal(policy, cart.subtotal) || checkSpendCaps(policy, cart.subtotal);
+    }
+
+    case 'place_order': {
+      // The total of the prepared checkout, not whatever total the caller passes in
+      const pending = pendingCheckoutTotal();
+      return checkOrderTotal(policy, pending ? parseAmount(pending) : null, 'Order total (prepare the checkout first)');
+    }
+
+    default:
+      return null;
+  }
+}
+
+/**
+ * Check a tool call against the spending policy before it runs.
+ * Returns an error result naming the violated rule, or null to proceed.
+ */
+export async function enforcePolicy(toolName: string, args: Record<string, unknown>): Promise<OperationResult | null> {
+  try {
+    // callTool validated the arguments against the tool's schema; other tools fall through to "allowed"
+    const violation = await evaluate(loadPolicy(), { toolName, args } as ToolCall);
+    if (!violation) {
+      return null;
+    }
+
+    console.log(`Policy blocked ${toolName}: [${violation.rule}] ${violation.message}`);
+    return {
+      success: false,
+      message: `Blocked by spending policy rule "${violation.rule}"`,
+      error: violation.message,
+      data: { violation },
+    };
+  } catch (error) {
+    // Fail closed: if the policy can't be evaluated, don't run the tool
+    return {
+      success: false,
+      message: 'Could not evaluate spending policy',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Current policy and spend against the caps, for the get_policy tool
+ */
+export function getPolicy(): OperationResult {
+  try {
+    const profile = currentProfile();
+    const policy = loadPolicy();
+    return {
+      success: true,
+      message: Object.keys(policy).length > 0
+        ? `Spending policy for profile "${profile.name}" loaded from ${profile.policyFile}`
+        : `No spending policy configured for profile "${profile.name}" (create ${profile.policyFile} to add limits)`,
+      data: {
+        profile: profile.name,
+        policy,
+        spend: {
+          last24Hours: Number(getSpend(DAY_MS).toFixed(2)),
+          last7Days: Number(getSpend(7 * DAY_MS).toFixed(2)),
+        },
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to load spending policy',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,298 @@
+import fs from 'fs';
+import path from 'path';
+import { getProductDetails } from './amazon';
+import { parseAmount, toMoney } from './money';
+import { Profile, currentProfile } from './profiles';
+import { Money, OperationResult, PriceObservation, PriceSource, PriceStats, PriceWatch, WatchPriceParams } from './types';
+
+/**
+ * Local price history and price watches, kept per profile under its
+ * user-data dir:
+ *   price-history.jsonl - one observation per line, appended whenever a
+ *                         product page, search result or cart item is scraped
+ *   price-watches.json  - watches checked in the background by checkPriceWatch()
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// An unchanged price for the same ASIN is recorded at most this often
+const UNCHANGED_RECORD_INTERVAL_MS = 60 * 60 * 1000;
+
+const DEFAULT_HISTORY_DAYS = 90;
+
+// Observations returned alongside the stats, newest last
+const MAX_RETURNED_OBSERVATIONS = 50;
+
+// Last recorded price per profile and ASIN, so repeated searches don't flood the file
+const lastRecorded = new Map<string, { price: number; at: number }>();
+
+function historyFile(profile: Profile = currentProfile()): string {
+  return path.join(profile.userDataDir, 'price-history.jsonl');
+}
+
+function watchesFile(profile: Profile = currentProfile()): string {
+  return path.join(profile.userDataDir, 'price-watches.json');
+}
+
+/**
+ * Append scraped prices to the current profile's history. Never throws:
+ * a failed write shouldn't fail the scrape that produced the prices.
+ */
+export function recordPrices(source: PriceSource, items: { asin: string; price: Money | null; title?: string }[]): void {
+  try {
+    const profile = currentProfile();
+    const now = Date.now();
+    const lines: string[] = [];
+
+    for (const item of items) {
+      if (!item.asin || !item.price) continue;
+      const price = item.price.amount;
+
+      const key = `${profile.name}:${item.asin}`;
+      const last = lastRecorded.get(key);
+      if (last && last.price === price && now - last.at < UNCHANGED_RECORD_INTERVAL_MS) continue;
+      lastRecorded.set(key, { price, at: now });
+
+      const observation: PriceObservation = {
+        asin: item.asin,
+        price,
+        display: item.price.display,
+        title: item.title,
+        source,
+        timestamp: new Date(now).toISOString(),
+      };
+      lines.push(JSON.stringify(observation));
+    }
+
+    if (lines.length > 0) {
+      const file = historyFile(profile);
+      fs.mkdirSync(path.dirname(file), { recursive: true });
+      fs.appendFileSync(file, lines.join('\n') + '\n');
+    }
+  } catch (error) {
+    console.error('Failed to record prices:', error);
+  }
+}
+
+/**
+ * Observations for an ASIN since a point in time, oldest first
+ */
+export function readPriceHistory(asin: string, since = 0): PriceObservation[] {
+  let contents: string;
+  try {
+    contents = fs.readFileSync(historyFile(), 'utf-8');
+  } catch {
+    return [];
+  }
+
+  const observations: PriceObservation[] = [];
+  for (const line of contents.split('\n')) {
+    if (!line.includes(asin)) continue;
+    try {
+      const observation = JSON.parse(line) as PriceObservation;
+      if (observation.asin === asin && Date.parse(observation.timestamp) >= since) {
+        observations.push(observation);
+      }
+    } catch {
+      // A line cut short by a crash - skip it
+    }
+  }
+  return observations;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const value = sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  return Number(value.toFixed(2));
+}
+
+/**
+ * Min/max/median over a set of observations (oldest first), or null if empty
+ */
+export function priceStats(observations: PriceObservation[]): PriceStats | null {
+  if (observations.length === 0) {
+    return null;
+  }
+  const prices = observations.map(o => o.price);
+  return {
+    count: prices.length,
+    min: Math.min(...prices),
+    max: Math.max(...prices),
+    median: median(prices),
+    latest: prices[prices.length - 1],
+    firstSeen: observations[0].timestamp,
+    lastSeen: observations[observations.length - 1].timestamp,
+  };
+}
+
+/**
+ * Stats per calendar day (UTC), oldest first
+ */
+export function dailyPriceStats(observations: PriceObservation[]): ({ date: string } & PriceStats)[] {
+  const days = new Map<string, PriceObservation[]>();
+  for (const observation of observations) {
+    const date = observation.timestamp.slice(0, 10);
+    days.set(date, [...(days.get(date) || []), observation]);
+  }
+  return Array.from(days, ([date, dayObservations]) => ({ date, ...priceStats(dayObservations)! }));
+}
+
+/**
+ * Whether a price meets a watch's target or drop threshold
+ */
+export function watchTriggered(watch: PriceWatch, price: number): boolean {
+  if (watch.targetPrice !== undefined && price <= watch.targetPrice) {
+    return true;
+  }
+  if (watch.dropPercent !== undefined && watch.basePrice !== undefined) {
+    return price <= watch.basePrice * (1 - watch.dropPercent / 100);
+  }
+  return false;
+}
+
+function readWatches(profile: Profile = currentProfile()): PriceWatch[] {
+  try {
+    return JSON.parse(fs.readFileSync(watchesFile(profile), 'utf-8')) as PriceWatch[];
+  } catch {
+    return [];
+  }
+}
+
+function writeWatches(watches: PriceWatch[]): void {
+  const file = watchesFile();
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(watches, null, 2));
+}
+
+/**
+ * ASINs the profile watches, for the background check
+ */
+export function watchedAsins(profile: Profile): string[] {
+  return readWatches(profile).map(w => w.asin);
+}
+
+export function getPriceHistory(asin: string, days = DEFAULT_HISTORY_DAYS): OperationResult {
+  const observations = readPriceHistory(asin, Date.now() - days * DAY_MS);
+  const stats = priceStats(observations);
+
+  if (!stats) {
+    return {
+      success: true,
+      message: `No prices recorded for ${asin} in the last ${days} day(s). Prices are recorded whenever the product, a search result or the cart shows it.`,
+      data: { asin, days, stats: null, daily: [], observations: [] },
+    };
+  }
+
+  const title = [...observations].reverse().find(o => o.title)?.title;
+  return {
+    success: true,
+    message: `${title ? `"${title}"` : asin}: ${stats.count} price(s) over ${days} day(s), ` +
+      `min ${toMoney(stats.min).display}, median ${toMoney(stats.median).display}, max ${toMoney(stats.max).display}, latest ${toMoney(stats.latest).display}`,
+    data: {
+      asin,
+      title,
+      currency: currentProfile().currency,
+      days,
+      stats,
+      daily: dailyPriceStats(observations),
+      observations: observations.slice(-MAX_RETURNED_OBSERVATIONS),
+    },
+  };
+}
+
+export function listPriceWatches(): OperationResult {
+  const watches = readWatches();
+  const triggered = watches.filter(w => w.triggeredAt);
+  return {
+    success: true,
+    message: `${watches.length} price watch(es)${triggered.length > 0 ? `, ${triggered.length} triggered` : ''}`,
+    data: watches,
+  };
+}
+
+/**
+ * Add, update or remove a price watch. Loads the product so the watch starts
+ * from its current price.
+ */
+export async function watchPrice(params: WatchPriceParams): Promise<OperationResult> {
+  try {
+    const watches = readWatches().filter(w => w.asin !== params.asin);
+
+    if (params.remove) {
+      writeWatches(watches);
+      return { success: true, message: `Stopped watching ${params.asin}`, data: watches };
+    }
+
+    if (params.targetPrice === undefined && params.dropPercent === undefined) {
+      throw new Error('Pass targetPrice and/or dropPercent');
+    }
+
+    const product = await getProductDetails(params.asin);
+    if (!product.success) {
+      throw new Error(product.error || product.message);
+    }
+    const price = parseAmount(product.data.price);
+
+    const now = new Date().toISOString();
+    const watch: PriceWatch = {
+      asin: params.asin,
+      title: product.data.title,
+      targetPrice: params.targetPrice,
+      dropPercent: params.dropPercent,
+      basePrice: price ?? undefined,
+      createdAt: now,
+      lastCheckedAt: now,
+      lastPrice: price ?? undefined,
+    };
+    if (price !== null && watchTriggered(watch, price)) {
+      watch.triggeredAt = now;
+      watch.triggeredPrice = price;
+    }
+
+    writeWatches([...watches, watch]);
+
+    return {
+      success: true,
+      message: `Watching "${watch.title}" (now ${product.data.price})` +
+        (watch.triggeredAt ? ' - already at or below the target' : ''),
+      data: watch,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to watch price',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
+
+/**
+ * Re-check one of the current profile's watches against the live product
+ * page. Returns the watch when it triggered on this check.
+ */
+export async function checkPriceWatch(asin: string): Promise<PriceWatch | null> {
+  const product = await getProductDetails(asin);
+  const price = product.success ? parseAmount(product.data.price) : null;
+  if (price === null) {
+    console.error(`⚠️  Price watch: could not read the price of ${asin}`);
+    return null;
+  }
+
+  // Re-read so a watch_price call made during the check isn't overwritten
+  const watches = readWatches();
+  const current = watches.find(w => w.asin === asin);
+  if (!current) return null;
+
+  current.lastCheckedAt = new Date().toISOString();
+  current.lastPrice = price;
+  const triggered = !current.triggeredAt && watchTriggered(current, price);
+  if (triggered) {
+    current.triggeredAt = current.lastCheckedAt;
+    current.triggeredPrice = price;
+    console.log(`✓ Price alert: "${current.title || current.asin}" is now ${product.data.price}`);
+  }
+  writeWatches(watches);
+
+  return triggered ? current : null;
+}
@@ -0,0 +1,180 @@
+import fs from 'fs';
+import path from 'path';
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Named profiles: one per Amazon account/marketplace, each with its own
+ * browser user-data dir, saved session, currency and spending policy.
+ *
+ * Profiles come from PROFILES_FILE (default ./profiles.json), read once at
+ * startup. Without that file there is a single "default" profile built from
+ * AMAZON_DOMAIN, USER_DATA_DIR, SESSION_FILE, POLICY_FILE and
+ * AMAZON_CREDENTIALS_FILE as before.
+ */
+
+export interface Profile {
+  name: string;
+  domain: string;        // Marketplace, e.g. amazon.co.uk
+  baseUrl: string;       // https://www.<domain>, or AMAZON_BASE_URL for the default profile
+  userDataDir: string;   // Chrome profile for this account
+  sessionFile: string;   // Encrypted saved cookies
+  currency: string;      // ISO 4217 code, e.g. GBP
+  policyFile: string;    // Spending policy for this account
+  credentialsFile: string;  // Sign-in email and password for the login tool
+  description?: string;
+}
+
+// Shape of an entry in profiles.json; everything but domain is optional
+interface ProfileConfig {
+  domain?: string;
+  userDataDir?: string;
+  sessionFile?: string;
+  currency?: string;
+  policyFile?: string;
+  credentialsFile?: string;
+  description?: string;
+}
+
+interface ProfilesFile {
+  default?: string;
+  profiles: Record<string, ProfileConfig>;
+}
+
+export const PROFILES_FILE = path.resolve(process.env.PROFILES_FILE || './profiles.json');
+
+export const DEFAULT_PROFILE_NAME = 'default';
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+const MARKETPLACE_CURRENCIES: Record<string, string> = {
+  'amazon.com': 'USD',
+  'amazon.ca': 'CAD',
+  'amazon.com.mx': 'MXN',
+  'amazon.com.br': 'BRL',
+  'amazon.co.uk': 'GBP',
+  'amazon.de': 'EUR',
+  'amazon.fr': 'EUR',
+  'amazon.it': 'EUR',
+  'amazon.es': 'EUR',
+  'amazon.nl': 'EUR',
+  'amazon.se': 'SEK',
+  'amazon.pl': 'PLN',
+  'amazon.co.jp': 'JPY',
+  'amazon.in': 'INR',
+  'amazon.com.au': 'AUD',
+  'amazon.sg': 'SGD',
+  'amazon.ae': 'AED',
+};
+
+let profiles: Map<string, Profile> | null = null;
+let activeProfileName = DEFAULT_PROFILE_NAME;
+
+// Profile bound to the current async call chain (a tool call's "profile" argument)
+const profileScope = new AsyncLocalStorage<Profile>();
+
+function buildProfile(name: string, config: ProfileConfig, baseDir: string): Profile {
+  const domain = config.domain || process.env.AMAZON_DOMAIN || 'amazon.com';
+  const userDataDir = path.resolve(config.userDataDir || baseDir);
+
+  return {
+    name,
+    domain,
+    // AMAZON_BASE_URL only redirects the default profile (e.g. to the test fixture server)
+    baseUrl: (name === DEFAULT_PROFILE_NAME && process.env.AMAZON_BASE_URL
+      ? process.env.AMAZON_BASE_URL
+      : `https://www.${domain}`).replace(/\/$/, ''),
+    userDataDir,
+    sessionFile: path.resolve(config.sessionFile || path.join(userDataDir, 'amazon-session.enc.json')),
+    currency: config.currency || MARKETPLACE_CURRENCIES[domain] || 'USD',
+    policyFile: path.resolve(config.policyFile || process.env.POLICY_FILE || './policy.json'),
+    credentialsFile: path.resolve(config.credentialsFile || path.join(userDataDir, 'credentials.json')),
+    description: config.description,
+  };
+}
+
+function loadProfiles(): Map<string, Profile> {
+  if (profiles) {
+    return profiles;
+  }
+
+  const rootDataDir = process.env.USER_DATA_DIR || './user-data';
+  const loaded = new Map<string, Profile>();
+
+  if (!fs.existsSync(PROFILES_FILE)) {
+    loaded.set(DEFAULT_PROFILE_NAME, buildProfile(DEFAULT_PROFILE_NAME, {
+      sessionFile: process.env.SESSION_FILE,
+      credentialsFile: process.env.AMAZON_CREDENTIALS_FILE,
+    }, rootDataDir));
+    profiles = loaded;
+    return loaded;
+  }
+
+  let file: ProfilesFile;
+  try {
+    file = JSON.parse(fs.readFileSync(PROFILES_FILE, 'utf-8'));
+  } catch (error) {
+    throw new Error(`Invalid profiles file ${PROFILES_FILE}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const [name, config] of Object.entries(file.profiles || {})) {
+    if (!PROFILE_NAME_PATTERN.test(name)) {
+      throw new Error(`Invalid profile name "${name}" in ${PROFILES_FILE} (use letters, digits, - and _)`);
+    }
+    // The default profile keeps the top-level user-data dir so existing logins carry over
+    const baseDir = name === DEFAULT_PROFILE_NAME ? rootDataDir : path.join(rootDataDir, 'profiles', name);
+    loaded.set(name, buildProfile(name, config, baseDir));
+  }
+
+  if (loaded.size === 0) {
+    throw new Error(`${PROFILES_FILE} defines no profiles`);
+  }
+
+  const defaultName = file.default || loaded.keys().next().value!;
+  if (!loaded.has(defaultName)) {
+    throw new Error(`Default profile "${defaultName}" is not defined in ${PROFILES_FILE}`);
+  }
+
+  activeProfileName = defaultName;
+  profiles = loaded;
+  console.log(`✓ Loaded ${loaded.size} profile(s) from ${PROFILES_FILE} (active: ${defaultName})`);
+  return loaded;
+}
+
+export function listProfiles(): Profile[] {
+  return Array.from(loadProfiles().values());
+}
+
+export function getProfile(name: string): Profile {
+  const profile = loadProfiles().get(name);
+  if (!profile) {
+    throw new Error(`Unknown profile "${name}". Available: ${Array.from(loadProfiles().keys()).join(', ')}`);
+  }
+  return profile;
+}
+
+export function getActiveProfile(): Profile {
+  // Loading first also picks up the file's default as the active profile
+  return loadProfiles().get(activeProfileName)!;
+}
+
+/**
+ * Make a profile the one tool calls use when they don't name one
+ */
+export function setActiveProfile(name: string): Profile {
+  const profile = getProfile(name);
+  activeProfileName = profile.name;
+  return profile;
+}
+
+/**
+ * Profile for the current call: the one bound by withProfile(), else the active profile
+ */
+export function currentProfile(): Profile {
+  return profileScope.getStore() || getActiveProfile();
+}
+
+/**
+ * Run fn with currentProfile() returning the named profile throughout its async call chain
+ */
+export function withProfile<T>(name: string, fn: () => Promise<T>): Promise<T> {
+  return profileScope.run(getProfile(name), fn);
+}
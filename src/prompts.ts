@@ -0,0 +1,179 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt, PromptArgument, PromptMessage } from '@modelcontextprotocol/sdk/types.js';
+import { CART_URI, SESSION_STATUS_URI, readResource } from './resources';
+
+/**
+ * Built-in prompts for common shopping workflows. Each one embeds the live
+ * cart or login state, read through the matching resource, so the agent
+ * starts from the account's actual state.
+ */
+
+interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgument[];
+  // Resource URI embedded ahead of the instructions
+  context: string;
+  // Receives arguments with every required one present
+  instructions: (args: Record<string, string>) => string;
+}
+
+// Shared by every prompt that could end in a purchase
+const CHECKOUT_RULE = 'Never call place_order unless I explicitly confirm the order summary from prepare_checkout in this conversation.';
+
+const PROMPT_DEFINITIONS: PromptDefinition[] = [
+  {
+    name: 'restock_from_shopping_list',
+    description: 'Add a shopping list to the cart after a dry run, skipping what is already in the cart',
+    arguments: [
+      {
+        name: 'items',
+        description: 'Shopping list, one item per line, e.g. "2 x paper towels" or an ASIN',
+        required: true,
+      },
+    ],
+    context: CART_URI,
+    instructions: args => [
+      'Restock my Amazon cart from this shopping list:',
+      '',
+      args.items,
+      '',
+      'Steps:',
+      '1. Compare the list with the cart above. Leave out anything already in the cart in at least the listed quantity, and tell me which ones.',
+      '2. Call add_items_to_cart with dryRun: true for the rest, using an ASIN when I gave one and a search query otherwise.',
+      '3. Show me what each line resolved to (title, price, quantity) and the estimated subtotal, and point out anything skipped or unresolved.',
+      '4. Only after I approve, call add_items_to_cart again without dryRun, then report the verification result.',
+      CHECKOUT_RULE,
+    ].join('\n'),
+  },
+  {
+    name: 'compare_products',
+    description: 'Compare several products side by side on price, rating, delivery and price history',
+    arguments: [
+      {
+        name: 'products',
+        description: 'ASINs or search queries to compare, separated by commas',
+        required: true,
+      },
+      {
+        name: 'criteria',
+        description: 'What matters most, e.g. "battery life and price"',
+      },
+    ],
+    context: SESSION_STATUS_URI,
+    instructions: args => [
+      `Compare these products: ${args.products}`,
+      '',
+      'Steps:',
+      '1. For each entry that is not an ASIN, call search_amazon and take the best match (not a sponsored result, unless it is the only match).',
+      '2. Call get_product for each ASIN, and get_price_history to see whether today\'s price is typical.',
+      '3. Present a table with title, price, list price, rating and review count, Prime, seller, delivery estimate and stock.',
+      `4. Recommend one${args.criteria ? `, weighing ${args.criteria} most` : ''}, and explain the trade-offs in a few sentences.`,
+      'Prices and delivery above depend on the login state shown; say so if I am not logged in.',
+      'Do not add anything to the cart unless I ask.',
+    ].join('\n'),
+  },
+  {
+    name: 'find_cheapest_prime_option',
+    description: 'Find the cheapest Prime-eligible product matching a description',
+    arguments: [
+      {
+        name: 'query',
+        description: 'What to look for, e.g. "USB-C charging cable 2m"',
+        required: true,
+      },
+      {
+        name: 'minRating',
+        description: 'Lowest acceptable star rating (default: 4)',
+      },
+      {
+        name: 'maxPrice',
+        description: 'Highest acceptable price in the marketplace currency',
+      },
+    ],
+    context: SESSION_STATUS_URI,
+    instructions: args => [
+      `Find the cheapest Prime-eligible option for: ${args.query}`,
+      '',
+      'Steps:',
+      `1. Call search_amazon with query "${args.query}", sort: "price_asc", primeOnly: true, minRating: ${args.minRating || 4}` +
+        `${args.maxPrice ? `, maxPrice: ${args.maxPrice}` : ''} and limit: 10.`,
+      '2. Discard results that do not actually match what I asked for (accessories, multipacks of the wrong size, other products).',
+      '3. Call get_product on the two or three cheapest matches to confirm price, stock and Prime delivery.',
+      '4. Show the cheapest match first with its price, rating and delivery estimate, then the runners-up, noting any price per unit differences.',
+      'Prime eligibility and delivery estimates depend on the login state shown; say so if I am not logged in.',
+      'Do not add anything to the cart unless I ask.',
+    ].join('\n'),
+  },
+  {
+    name: 'review_cart_before_checkout',
+    description: 'Check the cart for problems, then prepare checkout and wait for my confirmation',
+    arguments: [
+      {
+        name: 'budget',
+        description: 'Total I expect to spend at most, in the marketplace currency',
+      },
+    ],
+    context: CART_URI,
+    instructions: args => [
+      'Review my cart above before I check out.',
+      '',
+      'Steps:',
+      '1. List the items with quantity, unit price and line total. Flag unusual quantities, near-duplicate items, and items with no price.',
+      '2. If subtotalMatches is false, explain the difference between the items and Amazon\'s subtotal.',
+      '3. Mention anything in saved for later that I might have meant to buy.',
+      '4. Call get_price_history for the most expensive items and say whether their current price is high compared to their history.',
+      `5. ${args.budget ? `Compare the subtotal with my budget of ${args.budget} and suggest what to drop if it is over. ` : ''}` +
+        'Then call prepare_checkout and show me the address, payment method, delivery option and total.',
+      CHECKOUT_RULE,
+    ].join('\n'),
+  },
+];
+
+const promptsByName = new Map(PROMPT_DEFINITIONS.map(prompt => [prompt.name, prompt]));
+
+/**
+ * Prompt listing for prompts/list
+ */
+export const PROMPTS: Prompt[] = PROMPT_DEFINITIONS.map(({ name, description, arguments: args }) => ({
+  name,
+  description,
+  arguments: args,
+}));
+
+/**
+ * Embed a resource's current contents, or a note saying why it could not be read
+ */
+async function contextMessage(uri: string): Promise<PromptMessage> {
+  try {
+    const { contents } = await readResource(uri);
+    return { role: 'user', content: { type: 'resource', resource: contents[0] } };
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : String(error);
+    return { role: 'user', content: { type: 'text', text: `(Could not read ${uri}: ${reason})` } };
+  }
+}
+
+/**
+ * Build a prompt for prompts/get. Missing required arguments and unknown
+ * prompts are rejected with an MCP invalid params error.
+ */
+export async function getPrompt(name: string, args: Record<string, string> = {}): Promise<GetPromptResult> {
+  const prompt = promptsByName.get(name);
+  if (!prompt) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = prompt.arguments.filter(arg => arg.required && !args[arg.name]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams,
+      `Missing arguments for ${name}: ${missing.map(arg => arg.name).join(', ')}`);
+  }
+
+  return {
+    description: prompt.description,
+    messages: [
+      await contextMessage(prompt.context),
+      { role: 'user', content: { type: 'text', text: prompt.instructions(args) } },
+    ],
+  };
+}
@@ -0,0 +1,142 @@
+import { Page } from 'puppeteer';
+import { getPage } from './browser';
+import { baseUrl } from './amazon';
+import { monthsBefore, scanOrderHistory, today } from './orders';
+import { addItemsToCart } from './shopping-list';
+import { BuyAgainItem, BuyAgainParams, OperationResult } from './types';
+import { saveAmazonSession } from './session-manager';
+import { findSelector, selectorMap } from './selectors';
+import { errorCode, navigate } from './page-guard';
+
+/**
+ * "Buy again": frequently purchased items from the Buy Again page and order
+ * history, and re-adding them to the cart by ASIN.
+ */
+
+const BUY_AGAIN_PATH = '/gp/buyagain';
+
+const DEFAULT_LOOKBACK_MONTHS = 12;
+const DEFAULT_BUY_AGAIN_LIMIT = 20;
+
+type BuyAgainPageItem = Pick<BuyAgainItem, 'asin' | 'title' | 'currentPrice' | 'imageUrl'>;
+
+/**
+ * Scrape the Buy Again page. Returns an empty list if the page has no items
+ * (e.g. on marketplaces without one).
+ */
+async function readBuyAgainPage(page: Page): Promise<BuyAgainPageItem[]> {
+  await navigate(page, `${baseUrl()}${BUY_AGAIN_PATH}`);
+
+  const itemSelector = await findSelector(page, 'buyAgain.item', { timeout: 5000 });
+  if (!itemSelector) {
+    return [];
+  }
+
+  const fields = selectorMap(['buyAgain.title', 'buyAgain.price', 'buyAgain.image']);
+  return page.evaluate((itemSelector: string, fields: Record<string, string[]>) => {
+    const clean = (value: string | null | undefined): string => value?.replace(/\s+/g, ' ').trim() || '';
+    const pick = (root: ParentNode, chain: string[]): Element | null => {
+      for (const selector of chain) {
+        const el = root.querySelector(selector);
+        if (el) return el;
+      }
+      return null;
+    };
+
+    return Array.from(document.querySelectorAll(itemSelector)).map(item => ({
+      asin: item.getAttribute('data-asin') || '',
+      title: clean(pick(item, fields['buyAgain.title'])?.textContent) || 'Unknown',
+      currentPrice: clean(pick(item, fields['buyAgain.price'])?.textContent) || undefined,
+      imageUrl: pick(item, fields['buyAgain.image'])?.getAttribute('src') || undefined,
+    })).filter(item => item.asin);
+  }, itemSelector, fields);
+}
+
+function lastOrderTime(item: BuyAgainItem): number {
+  return item.lastOrderDate ? Date.parse(item.lastOrderDate) : 0;
+}
+
+/**
+ * Merge Buy Again page items with order history into one list, most
+ * frequently ordered first, then most recently ordered. truncated means the
+ * history scan stopped at its page limit, so counts cover only the newest orders.
+ */
+async function collectBuyAgainItems(page: Page, months: number): Promise<{ items: BuyAgainItem[]; truncated: boolean }> {
+  const endDate = today();
+  const { orders, truncated } = await scanOrderHistory(page, { startDate: monthsBefore(endDate, months), endDate }, Infinity);
+  const pageItems = await readBuyAgainPage(page);
+
+  const items = new Map<string, BuyAgainItem>();
+  pageItems.forEach(item => items.set(item.asin, {
+    ...item,
+    timesOrdered: 0,
+    totalQuantity: 0,
+    onBuyAgainPage: true,
+  }));
+
+  // Orders come newest first, so the first sighting of an ASIN is its latest order
+  for (const order of orders) {
+    for (const orderItem of order.items) {
+      if (!orderItem.asin) continue;
+
+      let item = items.get(orderItem.asin);
+      if (!item) {
+        item = {
+          asin: orderItem.asin,
+          title: orderItem.title,
+          imageUrl: orderItem.imageUrl,
+          timesOrdered: 0,
+          totalQuantity: 0,
+          onBuyAgainPage: false,
+        };
+        items.set(orderItem.asin, item);
+      }
+
+      if (!item.lastOrderId) {
+        item.lastOrderId = order.orderId;
+        // Left out when the date can't be parsed, so sorting never compares display text
+        item.lastOrderDate = order.orderDateIso;
+        item.lastPrice = orderItem.price;
+      }
+      item.timesOrdered++;
+      item.totalQuantity += orderItem.quantity;
+    }
+  }
+
+  // Map iteration keeps Buy Again page order for ties, since those were inserted first
+  const sorted = Array.from(items.values()).sort((a, b) =>
+    b.timesOrdered - a.timesOrdered || lastOrderTime(b) - lastOrderTime(a));
+  return { items: sorted, truncated };
+}
+
+export async function buyAgain(params: BuyAgainParams = {}): Promise<OperationResult> {
+  if (params.add && params.add.length > 0) {
+    return addItemsToCart({ items: params.add });
+  }
+
+  try {
+    const page = await getPage();
+    const { items, truncated } = await collectBuyAgainItems(page, params.months || DEFAULT_LOOKBACK_MONTHS);
+    const results = items.slice(0, params.limit || DEFAULT_BUY_AGAIN_LIMIT);
+
+    await saveAmazonSession(page).catch(() => {});
+
+    return {
+      success: true,
+      message: `Found ${items.length} item(s) to buy again${items.length > results.length ? `, showing the top ${results.length}` : ''}. ` +
+        (truncated ? 'Order history was too long to read in full, so order counts and dates cover only the most recent orders. ' : '') +
+        'Call buy_again with "add" to put chosen ASINs in the cart.',
+      data: {
+        items: results,
+        truncated,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to load buy again items',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
@@ -0,0 +1,231 @@
+import fs from 'fs';
+import { McpError, ErrorCode, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { checkLoginStatus, getCart, getProductDetails, searchProducts } from './amazon';
+import { getLaunchedProfiles } from './browser';
+import { enforcePolicy } from './policy';
+import { listPriceWatches } from './price-history';
+import { currentProfile } from './profiles';
+import { runBrowserOperation } from './scheduler';
+import { CartContents, OperationResult, PriceWatch, ProductDetails, SearchResult } from './types';
+
+/**
+ * MCP resources: the live cart, the session status, price watches, and the
+ * most recent search results and product pages. Reads are for the active profile.
+ */
+
+export const CART_URI = 'amazon://cart';
+export const SESSION_STATUS_URI = 'amazon://session/status';
+export const PRICE_WATCHES_URI = 'amazon://price-watches';
+const SEARCH_URI_PREFIX = 'amazon://search/';
+const PRODUCT_URI_PREFIX = 'amazon://product/';
+
+// Recent entries kept per profile for resources/list; older ones are dropped
+const MAX_RECENT_SEARCHES = 20;
+const MAX_RECENT_PRODUCTS = 50;
+
+export type ResourceChange = { type: 'updated'; uri: string } | { type: 'listChanged' };
+
+interface Recent<T> {
+  value: T;
+  fetchedAt: string;
+}
+
+// Keyed by profile name, then query / ASIN, oldest first
+const recentSearches = new Map<string, Map<string, Recent<SearchResult[]>>>();
+const recentProducts = new Map<string, Map<string, Recent<ProductDetails>>>();
+const listeners = new Set<(change: ResourceChange) => void>();
+
+export const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: `${SEARCH_URI_PREFIX}{query}`,
+    name: 'Search results',
+    description: 'Results of the most recent search for a query (searches now if there is none)',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: `${PRODUCT_URI_PREFIX}{asin}`,
+    name: 'Product',
+    description: 'Details of a product as last loaded (loads it now if it was not)',
+    mimeType: 'application/json',
+  },
+];
+
+/**
+ * Be told when a resource changes or the resource list does. Returns a
+ * function that stops the notifications.
+ */
+export function onResourceChange(listener: (change: ResourceChange) => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function notifyResourceUpdated(uri: string): void {
+  listeners.forEach(listener => listener({ type: 'updated', uri }));
+}
+
+export function notifyResourceListChanged(): void {
+  listeners.forEach(listener => listener({ type: 'listChanged' }));
+}
+
+function remember<T>(cache: Map<string, Map<string, Recent<T>>>, key: string, value: T, limit: number, uri: string): void {
+  const profileName = currentProfile().name;
+  const entries = cache.get(profileName) || new Map<string, Recent<T>>();
+  cache.set(profileName, entries);
+
+  const isNew = !entries.has(key);
+  entries.delete(key);
+  entries.set(key, { value, fetchedAt: new Date().toISOString() });
+  if (entries.size > limit) {
+    entries.delete(entries.keys().next().value!);
+  }
+
+  notifyResourceUpdated(uri);
+  if (isNew) {
+    notifyResourceListChanged();
+  }
+}
+
+export function searchUri(query: string): string {
+  return SEARCH_URI_PREFIX + encodeURIComponent(query);
+}
+
+export function productUri(asin: string): string {
+  return PRODUCT_URI_PREFIX + asin;
+}
+
+/**
+ * Keep a search's results for amazon://search/{query}
+ */
+export function rememberSearch(query: string, results: SearchResult[]): void {
+  remember(recentSearches, query, results, MAX_RECENT_SEARCHES, searchUri(query));
+}
+
+/**
+ * Keep a product's details for amazon://product/{asin}
+ */
+export function rememberProduct(product: ProductDetails): void {
+  remember(recentProducts, product.asin, product, MAX_RECENT_PRODUCTS, productUri(product.asin));
+}
+
+export function listResources(): Resource[] {
+  const profileName = currentProfile().name;
+  const searches = Array.from(recentSearches.get(profileName)?.entries() || []).reverse();
+  const products = Array.from(recentProducts.get(profileName)?.entries() || []).reverse();
+
+  return [
+    {
+      uri: CART_URI,
+      name: 'Cart',
+      description: 'Live cart contents, subtotal and saved-for-later items',
+      mimeType: 'application/json',
+    },
+    {
+      uri: SESSION_STATUS_URI,
+      name: 'Session status',
+      description: 'Profile, login state and saved session',
+      mimeType: 'application/json',
+    },
+    {
+      uri: PRICE_WATCHES_URI,
+      name: 'Price watches',
+      description: 'Watched products with their thresholds, last checked price and whether they have triggered',
+      mimeType: 'application/json',
+    },
+    ...searches.map(([query, recent]) => ({
+      uri: searchUri(query),
+      name: `Search: ${query}`,
+      description: `${recent.value.length} result(s) from ${recent.fetchedAt}`,
+      mimeType: 'application/json',
+    })),
+    ...products.map(([asin, recent]) => ({
+      uri: productUri(asin),
+      name: recent.value.title,
+      description: `${asin}, ${recent.value.price} as of ${recent.fetchedAt}`,
+      mimeType: 'application/json',
+    })),
+  ];
+}
+
+/**
+ * The data of a successful result, typed as the operation returns it
+ */
+function unwrap<T>(result: OperationResult): T {
+  if (!result.success) {
+    throw new McpError(ErrorCode.InternalError, result.error || result.message);
+  }
+  return result.data;
+}
+
+async function sessionStatus(): Promise<object> {
+  const profile = currentProfile();
+  const login = unwrap<{ loggedIn: boolean; accountText: string }>(await runBrowserOperation('read_session_status', checkLoginStatus));
+  const saved = fs.existsSync(profile.sessionFile) ? fs.statSync(profile.sessionFile) : null;
+
+  return {
+    profile: profile.name,
+    domain: profile.domain,
+    browserRunning: getLaunchedProfiles().some(launched => launched.name === profile.name),
+    loggedIn: login.loggedIn,
+    accountText: login.accountText,
+    sessionSaved: !!saved,
+    sessionSavedAt: saved?.mtime.toISOString(),
+  };
+}
+
+async function readValue(uri: string): Promise<unknown> {
+  const profileName = currentProfile().name;
+
+  if (uri === CART_URI) {
+    return unwrap<CartContents>(await runBrowserOperation('read_cart', getCart));
+  }
+  if (uri === SESSION_STATUS_URI) {
+    return sessionStatus();
+  }
+  if (uri === PRICE_WATCHES_URI) {
+    return unwrap<PriceWatch[]>(listPriceWatches());
+  }
+  if (uri.startsWith(SEARCH_URI_PREFIX)) {
+    const query = decodeURIComponent(uri.slice(SEARCH_URI_PREFIX.length));
+    // Same blockedKeywords check as search_amazon, for cached results too
+    const refused = await enforcePolicy('search_amazon', { query });
+    if (refused) {
+      throw new McpError(ErrorCode.InvalidRequest, refused.error || refused.message, refused.data);
+    }
+    const recent = recentSearches.get(profileName)?.get(query);
+    if (recent) {
+      return { query, fetchedAt: recent.fetchedAt, results: recent.value };
+    }
+    const results = unwrap<SearchResult[]>(await runBrowserOperation('read_search', () => searchProducts({ query })));
+    return { query, fetchedAt: new Date().toISOString(), results };
+  }
+  if (uri.startsWith(PRODUCT_URI_PREFIX)) {
+    const asin = uri.slice(PRODUCT_URI_PREFIX.length);
+    if (!/^[A-Za-z0-9]{10}$/.test(asin)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ASIN in ${uri}`);
+    }
+    const recent = recentProducts.get(profileName)?.get(asin);
+    if (recent) {
+      return { fetchedAt: recent.fetchedAt, product: recent.value };
+    }
+    const product = unwrap<ProductDetails>(await runBrowserOperation('read_product', () => getProductDetails(asin)));
+    return { fetchedAt: new Date().toISOString(), product };
+  }
+
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+}
+
+/**
+ * Contents for resources/read
+ */
+export async function readResource(uri: string) {
+  const value = await readValue(uri);
+  return {
+    contents: [
+      {
+        uri,
+        mimeType: 'application/json',
+        text: JSON.stringify(value, null, 2),
+      },
+    ],
+  };
+}
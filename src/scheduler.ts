@@ -0,0 +1,268 @@
+import { Page } from 'puppeteer';
+import { AsyncLocalStorage } from 'async_hooks';
+import { newPage, withPage } from './browser';
+import { currentProfile } from './profiles';
+
+/**
+ * Browser operation queue. Every tool call that touches Amazon runs as an
+ * operation: it waits for a free slot, gets its own tab from the current
+ * profile's browser, and is closed down if it times out or is cancelled.
+ */
+
+// How many operations may drive the browser at once (1 = fully serialized)
+const CONCURRENCY = Math.max(1, Math.floor(Number(process.env.BROWSER_CONCURRENCY)) || 1);
+
+// Default time limit for one operation, including the spending policy check
+const DEFAULT_TIMEOUT_MS = (Number(process.env.BROWSER_OPERATION_TIMEOUT_SECONDS) || 120) * 1000;
+
+// Queue wait times kept for the /health average
+const WAIT_SAMPLES = 100;
+
+export interface OperationOptions {
+  timeoutMs?: number;
+  signal?: AbortSignal;  // Aborts the operation, e.g. when the MCP client cancels the request
+}
+
+export interface QueueStats {
+  concurrency: number;
+  active: number;
+  queued: number;
+  idlePages: number;
+  oldestQueuedMs: number;
+  averageWaitMs: number;
+  completed: number;
+  failed: number;
+  timedOut: number;
+  cancelled: number;
+}
+
+interface QueuedOperation {
+  name: string;
+  enqueuedAt: number;
+  start: () => void;
+}
+
+// Lets code inside an operation stop its clock, e.g. while a person solves a CAPTCHA,
+// and clean up what it opened outside its pooled tab if it is interrupted
+interface OperationControl {
+  pauseTimeout(): () => void;
+  onInterrupt(cleanup: () => void): void;
+}
+
+const operationScope = new AsyncLocalStorage<OperationControl>();
+
+const queue: QueuedOperation[] = [];
+// Idle tabs by profile name; a tab only ever serves the browser it was opened in
+const idlePages = new Map<string, Page[]>();
+const recentWaits: number[] = [];
+const counters = { completed: 0, failed: 0, timedOut: 0, cancelled: 0 };
+let active = 0;
+
+function recordWait(waitMs: number) {
+  recentWaits.push(waitMs);
+  if (recentWaits.length > WAIT_SAMPLES) {
+    recentWaits.shift();
+  }
+}
+
+/**
+ * Wait until fewer than CONCURRENCY operations are running, in FIFO order
+ */
+function acquireSlot(name: string, signal?: AbortSignal): Promise<void> {
+  if (active < CONCURRENCY && queue.length === 0) {
+    active++;
+    recordWait(0);
+    return Promise.resolve();
+  }
+
+  return new Promise((resolve, reject) => {
+    const entry: QueuedOperation = {
+      name,
+      enqueuedAt: Date.now(),
+      start: () => {
+        signal?.removeEventListener('abort', onAbort);
+        active++;
+        recordWait(Date.now() - entry.enqueuedAt);
+        resolve();
+      },
+    };
+
+    const onAbort = () => {
+      queue.splice(queue.indexOf(entry), 1);
+      counters.cancelled++;
+      reject(new Error(`${name} was cancelled while waiting for the browser`));
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(entry);
+    console.log(`Queued ${name} (${queue.length} waiting, ${active} running)`);
+  });
+}
+
+function releaseSlot() {
+  active--;
+  queue.shift()?.start();
+}
+
+function idlePagesFor(profileName: string): Page[] {
+  let pages = idlePages.get(profileName);
+  if (!pages) {
+    pages = [];
+    idlePages.set(profileName, pages);
+  }
+  return pages;
+}
+
+async function acquirePage(profileName: string): Promise<Page> {
+  const pool = idlePagesFor(profileName);
+  let page = pool.pop();
+  while (page && page.isClosed()) {
+    page = pool.pop();
+  }
+  return page || newPage();
+}
+
+function releasePage(profileName: string, page: Page) {
+  if (page.isClosed()) {
+    return;
+  }
+  const pool = idlePagesFor(profileName);
+  if (pool.length < CONCURRENCY) {
+    pool.push(page);
+  } else {
+    page.close().catch(() => {});
+  }
+}
+
+/**
+ * Run a browser operation on its own pooled tab once a slot is free.
+ * getPage() inside the operation returns that tab.
+ */
+export async function runBrowserOperation<T>(
+  name: string,
+  operation: () => Promise<T>,
+  options: OperationOptions = {},
+): Promise<T> {
+  const { signal } = options;
+  const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  if (signal?.aborted) {
+    counters.cancelled++;
+    throw new Error(`${name} was cancelled`);
+  }
+
+  await acquireSlot(name, signal);
+
+  const profileName = currentProfile().name;
+  let page: Page | undefined;
+  let interrupted = false;
+  let timer: NodeJS.Timeout | undefined;
+  let onAbort: (() => void) | undefined;
+  let deadline = Date.now() + timeoutMs;
+  let finished = false;
+  const interruptCleanups: (() => void)[] = [];
+
+  try {
+    page = await acquirePage(profileName);
+
+    let armTimer: (ms: number) => void = () => {};
+    const interruption = new Promise<never>((_resolve, reject) => {
+      armTimer = ms => {
+        timer = setTimeout(() => {
+          interrupted = true;
+          counters.timedOut++;
+          reject(new Error(`${name} timed out after ${Math.round(timeoutMs / 1000)}s`));
+        }, ms);
+      };
+      armTimer(timeoutMs);
+
+      onAbort = () => {
+        interrupted = true;
+        counters.cancelled++;
+        reject(new Error(`${name} was cancelled`));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+
+    const control: OperationControl = {
+      pauseTimeout: () => {
+        clearTimeout(timer);
+        const remaining = Math.max(deadline - Date.now(), 0);
+        return () => {
+          // The operation may have been cancelled while paused
+          if (finished) return;
+          deadline = Date.now() + remaining;
+          armTimer(remaining);
+        };
+      },
+      onInterrupt: cleanup => {
+        interruptCleanups.push(cleanup);
+      },
+    };
+
+    const running = operationScope.run(control, () => withPage(page!, operation));
+    // The operation may still settle after losing the race; don't let that surface as unhandled
+    running.catch(() => {});
+
+    const result = await Promise.race([running, interruption]);
+    counters.completed++;
+    return result;
+  } catch (error) {
+    if (interrupted) {
+      // Closing the tab stops whatever the operation was still doing in it
+      page?.close().catch(() => {});
+      page = undefined;
+      interruptCleanups.forEach(cleanup => cleanup());
+    } else {
+      counters.failed++;
+    }
+    throw error;
+  } finally {
+    finished = true;
+    clearTimeout(timer);
+    if (onAbort) {
+      signal?.removeEventListener('abort', onAbort);
+    }
+    if (page) {
+      releasePage(profileName, page);
+    }
+    releaseSlot();
+  }
+}
+
+/**
+ * Stop the current operation's timeout until the returned function is called.
+ * Outside an operation this does nothing.
+ */
+export function pauseOperationTimeout(): () => void {
+  return operationScope.getStore()?.pauseTimeout() || (() => {});
+}
+
+/**
+ * Run cleanup if the current operation times out or is cancelled, e.g. to
+ * close a tab it opened besides its pooled one. Outside an operation this
+ * does nothing.
+ */
+export function onOperationInterrupt(cleanup: () => void): void {
+  operationScope.getStore()?.onInterrupt(cleanup);
+}
+
+/**
+ * Queue depth and wait times, reported in /health
+ */
+export function getQueueStats(): QueueStats {
+  const now = Date.now();
+  const averageWaitMs = recentWaits.length > 0
+    ? Math.round(recentWaits.reduce((sum, wait) => sum + wait, 0) / recentWaits.length)
+    : 0;
+
+  return {
+    concurrency: CONCURRENCY,
+    active,
+    queued: queue.length,
+    idlePages: Array.from(idlePages.values()).reduce((sum, pages) => sum + pages.length, 0),
+    oldestQueuedMs: queue.length > 0 ? now - queue[0].enqueuedAt : 0,
+    averageWaitMs,
+    ...counters,
+  };
+}
@@ -0,0 +1,449 @@
+import { ElementHandle, Page } from 'puppeteer';
+import fs from 'fs';
+import path from 'path';
+import { currentProfile } from './profiles';
+
+/**
+ * Selector registry for Amazon DOM scraping.
+ *
+ * Every field maps to an ordered fallback chain of CSS selectors: the first
+ * selector that matches wins. The built-in recipe below covers the current
+ * amazon.com layout; marketplaces with different markup or wording get
+ * per-domain overrides, and a JSON file on disk (SELECTORS_FILE) can patch
+ * any chain at runtime so a layout change doesn't have to wait for a release.
+ */
+
+const BASE_RECIPE = {
+  version: 1,
+  fields: {
+    // Navigation bar
+    'nav.accountName': ['#nav-link-accountList-nav-line-1', '#nav-link-accountList .nav-line-1'],
+    'nav.signIn': ['#nav-link-accountList', 'a[data-nav-role="signin"]', '#nav-signin-tooltip a'],
+
+    // Pages Amazon shows instead of the one requested
+    'blocker.captcha': ['form[action*="validateCaptcha"]', '#captchacharacters', 'iframe[src*="captcha"]'],
+    'blocker.twoFactor': ['#auth-mfa-otpcode', 'input[name="otpCode"]', '#cvf-input-code', 'form[action*="/ap/cvf"]'],
+    'blocker.signIn': ['form[name="signIn"]', '#ap_email', '#ap_password'],
+    'blocker.dogPage': ['img[alt*="Dogs of Amazon"]', 'a[href*="ref=cs_503_link"]', 'a[href*="ref=cs_404_link"]'],
+
+    // Sign-in pages (email, password, then a one-time code or an app approval)
+    'login.email': ['#ap_email_login', 'input#ap_email:not([type="hidden"])'],
+    'login.continue': ['#continue input', 'input#continue', '#continue'],
+    'login.password': ['#ap_password'],
+    'login.submit': ['#signInSubmit', '#auth-signin-button'],
+    'login.code': ['#auth-mfa-otpcode', '#cvf-input-code', 'input[name="otpCode"]', 'input[name="code"]'],
+    'login.codeSubmit': ['#auth-signin-button', '#cvf-submit-otp-button input', 'input[type="submit"]'],
+    'login.approval': ['#resend-approval-link', 'form[action*="/ap/cvf/approval"]', '[data-a-input-name="transactionApprovalStatus"]'],
+    'login.prompt': ['#auth-mfa-form p', '#channelDetailsForOtp', '#cvf-page-content .a-spacing-base', '.transaction-approval-word-break'],
+    'login.error': ['#auth-error-message-box .a-alert-content', '#auth-error-message-box', '.cvf-widget-alert .a-alert-content'],
+
+    // Search results page (item fields are relative to a result)
+    'search.result': ['[data-component-type="s-search-result"]', 'div.s-result-item[data-asin]:not([data-asin=""])'],
+    'search.resultLink': ['h2 a', 'a.a-link-normal.s-no-outline', 'a.a-link-normal[href*="/dp/"]'],
+    'search.title': ['h2 a span', 'h2 span', '[data-cy="title-recipe"] span'],
+    'search.price': ['.a-price:not([data-a-strike]) .a-offscreen'],
+    'search.priceSymbol': ['.a-price:not([data-a-strike]) .a-price-symbol', '.a-price-symbol'],
+    'search.priceWhole': ['.a-price:not([data-a-strike]) .a-price-whole', '.a-price-whole'],
+    'search.priceFraction': ['.a-price:not([data-a-strike]) .a-price-fraction', '.a-price-fraction'],
+    'search.listPrice': ['.a-price[data-a-strike="true"] .a-offscreen', '.a-text-price .a-offscreen'],
+    'search.rating': ['.a-icon-star-small span', '.a-icon-star-mini span', 'i[class*="a-star"] .a-icon-alt'],
+    'search.reviewCount': ['[aria-label$="ratings"]', 'a[href*="#customerReviews"] span', 'span.s-underline-text'],
+    'search.primeBadge': ['i.a-icon-prime', '[aria-label="Amazon Prime"]'],
+    'search.sponsored': ['.puis-sponsored-label-text', '.s-sponsored-label-text', '.puis-label-popover-default'],
+    'search.image': ['img.s-image'],
+
+    // Product detail page
+    'product.title': ['#productTitle', '#title'],
+    'product.price': [
+      '#corePrice_feature_div .a-price:not([data-a-strike]) .a-offscreen',
+      '#corePriceDisplay_desktop_feature_div .priceToPay .a-offscreen',
+      '#corePriceDisplay_desktop_feature_div .a-price:not([data-a-strike]) .a-offscreen',
+      '#priceblock_ourprice',
+      '#priceblock_dealprice',
+      '#price_inside_buybox',
+    ],
+    'product.listPrice': [
+      '#corePriceDisplay_desktop_feature_div .basisPrice .a-offscreen',
+      '#corePriceDisplay_desktop_feature_div .a-price[data-a-strike="true"] .a-offscreen',
+      '#corePrice_feature_div .a-price[data-a-strike="true"] .a-offscreen',
+      '#listPrice',
+    ],
+    'product.discount': ['#corePriceDisplay_desktop_feature_div .savingsPercentage', '.savingsPercentage'],
+    'product.availability': ['#availability span', '#availability', '#outOfStock'],
+    'product.seller': [
+      '#merchantInfoFeature_feature_div .offer-display-feature-text-message',
+      '#sellerProfileTriggerId',
+      '#merchant-info a',
+    ],
+    'product.fulfilledBy': ['#fulfillerInfoFeature_feature_div .offer-display-feature-text-message'],
+    'product.merchantInfo': ['#merchant-info'],
+    'product.primeBadge': [
+      '#prime-badge',
+      '#primeBadge',
+      '#corePrice_feature_div i.a-icon-prime',
+      '#deliveryBlockMessage i.a-icon-prime',
+      '#price-shipping-message i.a-icon-prime',
+    ],
+    'product.deliveryEstimate': [
+      '#mir-layout-DELIVERY_BLOCK-slot-PRIMARY_DELIVERY_MESSAGE_LARGE',
+      '#deliveryBlockMessage',
+      '#ddmDeliveryMessage',
+    ],
+    'product.bulletPoint': ['#feature-bullets ul li span.a-list-item'],
+    'product.breadcrumb': ['#wayfinding-breadcrumbs_feature_div ul li a', '#wayfinding-breadcrumbs_container a'],
+    'product.rating': ['#acrPopover'],
+    'product.reviewCount': ['#acrCustomerReviewText'],
+    'product.mainImage': ['#landingImage', '#imgBlkFront'],
+    'product.thumbnail': ['#altImages li.imageThumbnail img'],
+    'product.twisterRow': ['#twister [id^="variation_"]', '[id^="inline-twister-row-"]'],
+    'product.quantity': ['#quantity', 'select[name="quantity"]'],
+    'product.addToCart': ['#add-to-cart-button', 'input[name="submit.add-to-cart"]'],
+    'product.addToCartConfirmation': ['#sw-atc-confirmation', '#NATC_SMART_WAGON_CONF_MSG_SUCCESS', '#attachDisplayAddBaseAlert'],
+    'product.asinInput': ['#addToCart input[name="ASIN"]', 'input#ASIN', 'input[name="ASIN"]'],
+
+    // Whatever Amazon shows after the add-to-cart click instead of (or on top of) the confirmation
+    'addToCart.protectionPlan': ['#attach-warranty-pane', '#attach-warranty-display'],
+    'addToCart.declineProtection': ['#attachSiNoCoverage input', '#attachSiNoCoverage', '#attach-warranty-pane [data-action="attach-warranty-decline"]'],
+    'addToCart.sideSheet': ['#attach-desktop-sideSheet', '#attach-accessory-pane'],
+    'addToCart.sideSheetMessage': ['#attach-desktop-sideSheet h4', '#attach-accessory-pane h4', '#attachDisplayAddBaseAlert h4'],
+    'addToCart.alert': [
+      '#attach-warning-display .a-alert-content',
+      '#huc-v2-order-row-messages .a-alert-content',
+      '.a-alert-error .a-alert-content',
+      '.a-alert-warning .a-alert-content',
+    ],
+
+    // Cart page (item fields are relative to a cart line item)
+    'cart.empty': ['.sc-your-amazon-cart-is-empty'],
+    'cart.activeSection': ['[data-name="Active Items"]', '#sc-active-cart'],
+    'cart.savedSection': ['[data-name="Saved Items"]', '#sc-saved-cart'],
+    'cart.item': ['.sc-list-item[data-asin]'],
+    'cart.itemTitle': ['.sc-product-title', '.sc-grid-item-product-title'],
+    'cart.itemPrice': ['.sc-product-price', '.sc-item-price-block .a-price .a-offscreen'],
+    'cart.itemQuantity': ['[name^="quantity"]'],
+    'cart.itemQuantitySelect': ['select[name^="quantity"]'],
+    'cart.itemQuantityBox': ['input[name="quantityBox"]'],
+    'cart.itemImage': ['img'],
+    'cart.itemDelete': ['[data-action="delete"] input', '[data-action="delete"] a'],
+    'cart.itemSaveForLater': ['[data-action="save-for-later"] input', '[data-action="save-for-later"] a'],
+    'cart.itemMoveToCart': ['[data-action="move-to-cart"] input', '[data-action="move-to-cart"] a'],
+    'cart.itemUpdate': ['[data-action="update"] a', '[data-action="update"] input'],
+    'cart.subtotal': ['#sc-subtotal-amount-activecart .sc-price', '#sc-subtotal-amount-buybox .sc-price'],
+    'cart.proceedToCheckout': ['input[name="proceedToRetailCheckout"]', '#sc-buy-box-ptc-button input', '#sc-buy-box-ptc-button a'],
+
+    // Checkout ("Place your order") page (item fields are relative to a line item)
+    'checkout.placeOrder': ['#submitOrderButtonId input', '#placeYourOrder input', 'input[name="placeYourOrder1"]', '#bottomSubmitOrderButtonId input'],
+    'checkout.item': ['.lineitem-container', '[data-testid="line-item"]', '.shipment .item-row'],
+    'checkout.itemTitle': ['.lineitem-title-text', '.item-title', '.a-text-bold'],
+    'checkout.itemQuantity': ['.quantity-display', '.lineitem-quantity', '.item-quantity'],
+    'checkout.itemPrice': ['.lineitem-price-text', '.item-price', '.a-color-price'],
+    'checkout.shippingAddress': ['#deliver-to-address-text', '#shipaddress .displayAddressUL', '.displayAddressFullName'],
+    'checkout.paymentMethod': ['#payment-information .pmts-instrument-display-name', '.pmts-cc-detail', '#payment-information'],
+    'checkout.deliveryOption': ['.shipping-speed input:checked + span', '.shipping-speed .a-radio input:checked ~ span', '.delivery-option-selected', '.a-color-success.a-text-bold'],
+    'checkout.summaryRow': ['#subtotals-marketplace-table tr', '#subtotals .a-row'],
+    'checkout.total': ['#subtotals-marketplace-table .grand-total-price', '.grand-total-price', '#subtotals .order-summary-grand-total .a-text-right'],
+    'checkout.orderConfirmation': ['#widget-purchaseConfirmationStatus', '.a-alert-success .a-alert-heading', '#thankyou-main'],
+
+    // Your Orders list and order details (fields below a card are relative to it; the details page is read as one card)
+    'orders.card': ['.order-card', '.js-order-card', '#ordersContainer .order'],
+    'orders.detailsCard': ['#orderDetails', '[data-component="orderCard"]', '#orderDetailsContainer'],
+    'orders.orderId': ['.yohtmlc-order-id span[dir="ltr"]', '.yohtmlc-order-id .value', '[data-component="orderId"] bdi', '[data-component="orderId"]'],
+    'orders.date': ['.order-date .a-size-base', '.order-info .a-column:first-child .value', '.order-date-invoice-item', '[data-component="orderDate"]'],
+    'orders.total': ['.yohtmlc-order-total .a-size-base', '.yohtmlc-order-total .value', '.od-grand-total', '#od-subtotals .a-text-bold .a-text-right'],
+    'orders.detailsLink': ['.yohtmlc-order-details-link', 'a[href*="order-details"]'],
+    'orders.shipment': ['.delivery-box', '.shipment', '[data-component="shipments"] .a-box'],
+    'orders.shipmentStatus': ['.delivery-box__primary-text', '.shipment-top-row .a-size-medium', '.js-shipment-info-container .a-size-medium'],
+    'orders.shipmentDetail': ['.delivery-box__secondary-text', '.shipment-top-row .a-row:nth-child(2)'],
+    'orders.trackLink': ['.track-package-button a', 'a[href*="progress-tracker"]', 'a[href*="ship-track"]'],
+    'orders.item': ['.yohtmlc-item', '.item-box', '[data-component="purchasedItems"]'],
+    'orders.itemLink': ['a.yohtmlc-product-title', 'a[href*="/gp/product/"]', 'a[href*="/dp/"]'],
+    'orders.itemQuantity': ['.product-image__qty', '.item-view-qty'],
+    'orders.itemPrice': ['.a-color-price', '[data-component="unitPrice"] .a-offscreen'],
+    'orders.itemImage': ['img'],
+    'orders.nextPage': ['.a-pagination .a-last:not(.a-disabled) a'],
+    'orders.shippingAddress': ['[data-component="shippingAddress"] .displayAddressUL', '[data-component="shippingAddress"]', '.displayAddressDiv'],
+    'orders.paymentMethod': ['.pmts-payments-instrument-detail-box-paystationpaymentmethod', '[data-component="viewPaymentPlanSummaryWidget"]', '.pmts-payment-instrument-billing-address'],
+
+    // Buy Again page (item fields are relative to an item)
+    'buyAgain.item': ['[data-testid="buy-again-item"][data-asin]', '.buy-again-item[data-asin]', '#buyAgainPage [data-asin]:not([data-asin=""])'],
+    'buyAgain.title': ['[data-testid="item-title"]', '.buy-again-item-title', 'a[href*="/dp/"]'],
+    'buyAgain.price': ['.a-price:not([data-a-strike]) .a-offscreen', '.a-color-price'],
+    'buyAgain.image': ['img'],
+
+    // Subscribe & Save: subscription list (fields are relative to a card) and per-subscription edit page
+    'subscriptions.card': ['.subscription-card[data-subscription-id]', '[data-subscription-id]'],
+    'subscriptions.title': ['.subscription-product-title', '.subscription-card-title', 'a[href*="/dp/"]'],
+    'subscriptions.productLink': ['a[href*="/dp/"]', 'a[href*="/gp/product/"]'],
+    'subscriptions.price': ['.subscription-price .a-offscreen', '.subscription-price'],
+    'subscriptions.quantity': ['.subscription-quantity', '[data-field="quantity"]'],
+    'subscriptions.frequency': ['.subscription-frequency', '[data-field="frequency"]'],
+    'subscriptions.nextDelivery': ['.subscription-next-delivery', '[data-field="nextDelivery"]'],
+    'subscriptions.image': ['img'],
+    'subscriptions.frequencySelect': ['#subscription-frequency-select', 'select[name="frequency"]'],
+    'subscriptions.quantitySelect': ['#subscription-quantity-select', 'select[name="quantity"]'],
+    'subscriptions.save': ['#subscription-save-button input', 'input[name="saveChanges"]', 'button[name="saveChanges"]'],
+    'subscriptions.skip': ['#subscription-skip-button input', 'input[name="skipNextDelivery"]', 'button[name="skipNextDelivery"]'],
+    'subscriptions.alert': ['.a-alert-error .a-alert-content', '.a-alert-warning .a-alert-content'],
+
+    // Subscribe & Save on the product page, its review step and confirmation
+    'subscribe.option': ['#snsAccordionRowMiddle', '#sns-accordion', '#snsBuyBox'],
+    'subscribe.optionToggle': ['#snsAccordionRowMiddle .a-accordion-row', '#sns-accordion .a-accordion-row'],
+    'subscribe.price': ['#sns-base-price .a-offscreen', '#sns-base-price'],
+    'subscribe.frequency': ['#rcxOrdFreqOnml', '#snsAccordionRowMiddle select[name="frequency"]'],
+    'subscribe.quantity': ['#rcxsubsQuan', '#snsAccordionRowMiddle select[name="quantity"]'],
+    'subscribe.setUp': ['#rcx-subscribe-submit-button-announce', '#rcx-subscribe-submit-button input'],
+    'subscribe.confirm': ['#subscribe-now-button input', 'input[name="subscribeNow"]'],
+    'subscribe.firstDelivery': ['#sns-first-delivery', '.sns-delivery-date'],
+    'subscribe.total': ['#sns-order-total .a-offscreen', '#sns-order-total'],
+    'subscribe.confirmation': ['#sns-confirmation .a-alert-heading', '.a-alert-success .a-alert-heading'],
+
+    // Package tracking page (event fields are relative to an event row)
+    'tracking.status': ['#primaryStatus', '.pt-promise-main-slot', '.milestone-primaryMessage'],
+    'tracking.detail': ['#secondaryStatus', '.pt-promise-details-slot'],
+    'tracking.carrier': ['.carrierRelatedInfo-mfn-providerTitle', '#carrierRelatedInfo-container h2'],
+    'tracking.trackingId': ['.pt-delivery-card-trackingId', '.carrierRelatedInfo-trackingId-text'],
+    'tracking.event': ['.tracking-event-row', '#tracking-events-container .a-row'],
+    'tracking.eventTime': ['.tracking-event-time', '.tracking-event-timeLabel'],
+    'tracking.eventMessage': ['.tracking-event-message'],
+    'tracking.eventLocation': ['.tracking-event-location'],
+  },
+  text: {
+    // Greeting shown in the account menu when signed in
+    'nav.signedInGreeting': ['Hello'],
+    // Signed-out variant of the same menu (e.g. "Hello, sign in"), which also contains the greeting
+    'nav.signedOutMarker': ['sign in'],
+  },
+};
+
+export type SelectorField = keyof typeof BASE_RECIPE.fields;
+export type TextField = keyof typeof BASE_RECIPE.text;
+
+interface RecipeOverride {
+  fields?: Partial<Record<SelectorField, string[]>>;
+  text?: Partial<Record<TextField, string[]>>;
+}
+
+interface RecipeOverrideFile extends RecipeOverride {
+  version: number;
+  domains?: Record<string, RecipeOverride>;
+}
+
+interface Recipe {
+  version: number;
+  domain: string;
+  source: string[];
+  fields: Record<SelectorField, string[]>;
+  text: Record<TextField, string[]>;
+}
+
+// Marketplace-specific differences from the amazon.com recipe
+const DOMAIN_RECIPES: Record<string, RecipeOverride> = {
+  'amazon.de': { text: { 'nav.signedInGreeting': ['Hallo'], 'nav.signedOutMarker': ['anmelden'] } },
+  'amazon.at': { text: { 'nav.signedInGreeting': ['Hallo'], 'nav.signedOutMarker': ['anmelden'] } },
+  'amazon.fr': { text: { 'nav.signedInGreeting': ['Bonjour'], 'nav.signedOutMarker': ['Identifiez-vous'] } },
+  'amazon.es': { text: { 'nav.signedInGreeting': ['Hola'], 'nav.signedOutMarker': ['Identifícate'] } },
+  'amazon.com.mx': { text: { 'nav.signedInGreeting': ['Hola'], 'nav.signedOutMarker': ['Identifícate'] } },
+  'amazon.it': { text: { 'nav.signedInGreeting': ['Ciao'], 'nav.signedOutMarker': ['accedi'] } },
+  'amazon.nl': { text: { 'nav.signedInGreeting': ['Hallo'], 'nav.signedOutMarker': ['inloggen'] } },
+  'amazon.com.br': { text: { 'nav.signedInGreeting': ['Olá'], 'nav.signedOutMarker': ['faça seu login'] } },
+  'amazon.co.jp': { text: { 'nav.signedInGreeting': ['こんにちは', 'Hello'], 'nav.signedOutMarker': ['ログイン', 'sign in'] } },
+};
+
+/**
+ * Raised when none of the selectors in a field's fallback chain match
+ */
+export class SelectorError extends Error {
+  constructor(public readonly field: string, public readonly selectors: string[], context?: string) {
+    super(`Could not find "${field}"${context ? ` ${context}` : ''} (tried: ${selectors.join(' | ')})`);
+    this.name = 'SelectorError';
+  }
+}
+
+const OVERRIDES_FILE = path.resolve(process.env.SELECTORS_FILE || './selectors.json');
+
+let overrideCache: { mtimeMs: number; overrides: RecipeOverrideFile | null } | null = null;
+
+/**
+ * Load selector overrides from disk, re-reading only when the file changes
+ */
+function loadOverrides(): RecipeOverrideFile | null {
+  let mtimeMs: number;
+  try {
+    mtimeMs = fs.statSync(OVERRIDES_FILE).mtimeMs;
+  } catch {
+    overrideCache = null;
+    return null;
+  }
+
+  if (overrideCache && overrideCache.mtimeMs === mtimeMs) {
+    return overrideCache.overrides;
+  }
+
+  let overrides: RecipeOverrideFile | null = null;
+  try {
+    const parsed = JSON.parse(fs.readFileSync(OVERRIDES_FILE, 'utf-8')) as RecipeOverrideFile;
+    if (typeof parsed.version !== 'number') {
+      console.error(`⚠️  Ignoring ${OVERRIDES_FILE}: missing numeric "version"`);
+    } else if (parsed.version < BASE_RECIPE.version) {
+      // The built-in recipe has moved on since these overrides were written
+      console.error(`⚠️  Ignoring ${OVERRIDES_FILE}: version ${parsed.version} is older than built-in recipe version ${BASE_RECIPE.version}`);
+    } else {
+      overrides = parsed;
+      console.log(`✓ Loaded selector overrides from ${OVERRIDES_FILE} (version ${parsed.version})`);
+    }
+  } catch (error) {
+    console.error(`⚠️  Failed to load selector overrides from ${OVERRIDES_FILE}:`, error);
+    // Keep using the last good overrides while the file is being edited
+    if (overrideCache) {
+      overrideCache = { mtimeMs, overrides: overrideCache.overrides };
+      return overrideCache.overrides;
+    }
+  }
+
+  overrideCache = { mtimeMs, overrides };
+  return overrides;
+}
+
+/**
+ * Put override entries in front of the existing chain so the built-in
+ * selectors remain as fallbacks
+ */
+function applyOverride(recipe: Recipe, override: RecipeOverride | undefined, source: string): void {
+  if (!override) return;
+
+  for (const [field, selectors] of Object.entries(override.fields || {})) {
+    if (!(field in recipe.fields) || !Array.isArray(selectors)) {
+      console.error(`⚠️  Unknown or invalid selector field "${field}" in ${source}`);
+      continue;
+    }
+    const key = field as SelectorField;
+    recipe.fields[key] = [...selectors, ...recipe.fields[key].filter(s => !selectors.includes(s))];
+  }
+
+  for (const [field, values] of Object.entries(override.text || {})) {
+    if (!(field in recipe.text) || !Array.isArray(values)) {
+      console.error(`⚠️  Unknown or invalid text field "${field}" in ${source}`);
+      continue;
+    }
+    const key = field as TextField;
+    recipe.text[key] = [...values, ...recipe.text[key].filter(v => !values.includes(v))];
+  }
+
+  recipe.source.push(source);
+}
+
+/**
+ * Resolve the effective recipe for a marketplace: built-in, then built-in
+ * domain overrides, then the on-disk overrides (global, then per domain)
+ */
+export function getRecipe(domain = currentProfile().domain): Recipe {
+  const recipe: Recipe = {
+    version: BASE_RECIPE.version,
+    domain,
+    source: ['built-in'],
+    fields: Object.fromEntries(
+      Object.entries(BASE_RECIPE.fields).map(([field, selectors]) => [field, [...selectors]]),
+    ) as Record<SelectorField, string[]>,
+    text: Object.fromEntries(
+      Object.entries(BASE_RECIPE.text).map(([field, values]) => [field, [...values]]),
+    ) as Record<TextField, string[]>,
+  };
+
+  applyOverride(recipe, DOMAIN_RECIPES[domain], `built-in:${domain}`);
+
+  const overrides = loadOverrides();
+  if (overrides) {
+    recipe.version = overrides.version;
+    applyOverride(recipe, overrides, OVERRIDES_FILE);
+    applyOverride(recipe, overrides.domains?.[domain], `${OVERRIDES_FILE}:${domain}`);
+  }
+
+  return recipe;
+}
+
+/**
+ * Fallback chain for a single field
+ */
+export function selectorsFor(field: SelectorField): string[] {
+  return getRecipe().fields[field];
+}
+
+/**
+ * Fallback chains for several fields, in a plain object that can be passed
+ * into page.evaluate()
+ */
+export function selectorMap<F extends SelectorField>(fields: F[]): Record<F, string[]> {
+  const recipe = getRecipe();
+  return Object.fromEntries(fields.map(field => [field, recipe.fields[field]])) as Record<F, string[]>;
+}
+
+/**
+ * Localized text markers (e.g. the signed-in greeting) for the marketplace
+ */
+export function textFor(field: TextField): string[] {
+  return getRecipe().text[field];
+}
+
+/**
+ * Find the first selector in a field's chain that matches on the page,
+ * optionally scoped under a parent selector. Returns the full selector
+ * (including scope) or null when nothing matches within the timeout.
+ */
+export async function findSelector(
+  page: Page,
+  field: SelectorField,
+  options: { scope?: string; timeout?: number } = {},
+): Promise<string | null> {
+  const chain = selectorsFor(field).map(s => (options.scope ? `${options.scope} ${s}` : s));
+
+  if (options.timeout) {
+    try {
+      await page.waitForSelector(chain.join(', '), { timeout: options.timeout });
+    } catch {
+      return null;
+    }
+  }
+
+  for (const selector of chain) {
+    try {
+      if (await page.$(selector)) {
+        return selector;
+      }
+    } catch {
+      // Invalid selector from an override file - try the next one
+    }
+  }
+  return null;
+}
+
+/**
+ * Like findSelector(), but throws a SelectorError naming the field and the
+ * selectors that were tried
+ */
+export async function requireSelector(
+  page: Page,
+  field: SelectorField,
+  options: { scope?: string; timeout?: number; context?: string } = {},
+): Promise<string> {
+  const selector = await findSelector(page, field, { timeout: 5000, ...options });
+  if (!selector) {
+    throw new SelectorError(field, selectorsFor(field), options.context);
+  }
+  return selector;
+}
+
+/**
+ * Find the element for a field, or throw a SelectorError
+ */
+export async function requireElement(
+  page: Page,
+  field: SelectorField,
+  options: { scope?: string; timeout?: number; context?: string } = {},
+): Promise<ElementHandle<Element>> {
+  const selector = await requireSelector(page, field, options);
+  const element = await page.$(selector);
+  if (!element) {
+    throw new SelectorError(field, selectorsFor(field), options.context);
+  }
+  return element;
+}
@@ -1,198 +1,56 @@
+#!/usr/bin/env node
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
-import {
-  CallToolRequestSchema,
-  ListToolsRequestSchema,
-  InitializeRequestSchema,
-  PingRequestSchema,
-  ListResourcesRequestSchema,
-  ListPromptsRequestSchema,
-} from '@modelcontextprotocol/sdk/types.js';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
 import express, { Request, Response } from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
-import { searchProducts, addToCart, getCart, checkLoginStatus } from './amazon';
-import { closeBrowser, getBrowser, getPage } from './browser';
-import { saveAmazonSession, restoreAmazonSession } from './session-manager';
+import { randomUUID } from 'crypto';
+import { baseUrl } from './amazon';
+import { closeBrowser, getBrowser, getLaunchedProfiles, getPage } from './browser';
+import { createMcpServer } from './mcp';
+import { checkPriceWatch, watchedAsins } from './price-history';
+import { PRICE_WATCHES_URI, notifyResourceUpdated } from './resources';
+import { getQueueStats, runBrowserOperation } from './scheduler';
+import { isLoggedIn, saveAmazonSession } from './session-manager';
+import { getActiveProfile, listProfiles, withProfile } from './profiles';
 
 dotenv.config();
 
 const PORT = process.env.PORT || 3000;
 const AUTH_TOKEN = process.env.AUTH_TOKEN;
+const PRICE_CHECK_INTERVAL_MINUTES = parseFloat(process.env.PRICE_CHECK_INTERVAL_MINUTES || '60');
+
+type TransportMode = 'http' | 'stdio';
+
+/**
+ * Pick the transport from --transport=<mode> (or --transport <mode>), falling
+ * back to MCP_TRANSPORT. "http" serves Streamable HTTP on /mcp and legacy SSE on /sse.
+ */
+function selectedTransport(): TransportMode {
+  const args = process.argv.slice(2);
+  const flagIndex = args.findIndex(arg => arg === '--transport' || arg.startsWith('--transport='));
+  const flagValue = flagIndex === -1
+    ? undefined
+    : args[flagIndex].includes('=') ? args[flagIndex].split('=')[1] : args[flagIndex + 1];
+  const mode = (flagValue || process.env.MCP_TRANSPORT || 'http').toLowerCase();
+
+  if (mode !== 'http' && mode !== 'stdio') {
+    console.error(`Unknown transport "${mode}". Use --transport=http or --transport=stdio.`);
+    process.exit(1);
+  }
+  return mode;
+}
 
-// Create MCP Server
-const mcpServer = new Server({
-  name: 'amazon-cart-server',
-  version: '1.0.0',
-}, {
-  capabilities: {
-    tools: {},
-    resources: {},
-    prompts: {},
-  },
-});
-
-// Handle initialization
-mcpServer.setRequestHandler(InitializeRequestSchema, async () => {
-  console.log('Initialize request received');
-  return {
-    protocolVersion: '2024-11-05',
-    capabilities: {
-      tools: {},
-      resources: {},
-      prompts: {},
-    },
-    serverInfo: {
-      name: 'amazon-cart-server',
-      version: '1.0.0',
-    },
-  };
-});
-
-// Handle ping (keepalive)
-mcpServer.setRequestHandler(PingRequestSchema, async () => {
-  console.log('Ping request received');
-  return {};
-});
-
-// Handle resources list (we don't have any, but need to respond)
-mcpServer.setRequestHandler(ListResourcesRequestSchema, async () => {
-  console.log('List resources request received');
-  return {
-    resources: [],
-  };
-});
-
-// Handle prompts list (we don't have any, but need to respond)
-mcpServer.setRequestHandler(ListPromptsRequestSchema, async () => {
-  console.log('List prompts request received');
-  return {
-    prompts: [],
-  };
-});
-
-// Define MCP Tools
-mcpServer.setRequestHandler(ListToolsRequestSchema, async () => {
-  console.log('List tools request received');
-  return {
-    tools: [
-    {
-      name: 'search_amazon',
-      description: 'Search for products on Amazon',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          query: {
-            type: 'string',
-            description: 'Search query for Amazon products',
-          },
-        },
-        required: ['query'],
-      },
-    },
-    {
-      name: 'add_to_cart',
-      description: 'Add a product to Amazon cart',
-      inputSchema: {
-        type: 'object',
-        properties: {
-          query: {
-            type: 'string',
-            description: 'Product name to search and add',
-          },
-          asin: {
-            type: 'string',
-            description: 'Amazon ASIN (product ID) - use this if known',
-          },
-          quantity: {
-            type: 'number',
-            description: 'Quantity to add (default: 1)',
-            default: 1,
-          },
-        },
-      },
-    },
-    {
-      name: 'view_cart',
-      description: 'View current Amazon cart contents',
-      inputSchema: {
-        type: 'object',
-        properties: {},
-      },
-    },
-    {
-      name: 'check_login',
-      description: 'Check if logged into Amazon',
-      inputSchema: {
-        type: 'object',
-        properties: {},
-      },
-    },
-    {
-      name: 'save_session',
-      description: '(Optional) Manually trigger session save. Sessions are automatically saved periodically, after operations, and on shutdown, so this is typically not needed.',
-      inputSchema: {
-        type: 'object',
-        properties: {},
-      },
-    },
-    ],
-  };
-});
-
-mcpServer.setRequestHandler(CallToolRequestSchema, async (request) => {
-  const { name, arguments: args } = request.params;
-
-  try {
-    let result;
-
-    switch (name) {
-      case 'search_amazon':
-        result = await searchProducts((args as any)?.query);
-        break;
-      case 'add_to_cart':
-        result = await addToCart(args as any);
-        break;
-      case 'view_cart':
-        result = await getCart();
-        break;
-      case 'check_login':
-        result = await checkLoginStatus();
-        break;
-      case 'save_session':
-        const page = await getPage();
-        await saveAmazonSession(page);
-        result = {
-          success: true,
-          message: 'Amazon session saved successfully. Your login will persist across server restarts.',
-        };
-        break;
-      default:
-        throw new Error(`Unknown tool: ${name}`);
-    }
+const TRANSPORT = selectedTransport();
 
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify(result, null, 2),
-        },
-      ],
-    };
-  } catch (error) {
-    return {
-      content: [
-        {
-          type: 'text',
-          text: JSON.stringify({
-            success: false,
-            error: error instanceof Error ? error.message : String(error),
-          }, null, 2),
-        },
-      ],
-      isError: true,
-    };
-  }
-});
+if (TRANSPORT === 'stdio') {
+  // stdout carries the protocol in stdio mode, so all logging goes to stderr
+  console.log = console.error;
+  console.info = console.error;
+}
 
 // Create Express server for HTTP transport
 const app = express();
@@ -201,6 +59,7 @@ const app = express();
 app.use(cors({
   origin: '*',
   credentials: true,
+  exposedHeaders: ['Mcp-Session-Id'],
 }));
 
 // JSON parsing for non-SSE endpoints
@@ -216,14 +75,32 @@ app.use((req, res, next) => {
 app.set('etag', false);
 app.set('x-powered-by', false);
 
-// Track active SSE connections
+// Track active SSE connections, keyed by session ID
 interface SSEConnection {
   res: Response;
   sessionId: string;
+  createdAt: number;
+  lastActivityAt: number;
+  transport: SSEResponseTransport;
+  server: Server;
 }
 
 const activeConnections = new Map<string, SSEConnection>();
 
+// Streamable HTTP sessions on /mcp, keyed by the Mcp-Session-Id header
+const httpSessions = new Map<string, StreamableHTTPServerTransport>();
+
+// Remove a session and shut down its MCP server (cancelling its in-flight tool calls)
+function closeSession(sessionId: string) {
+  const connection = activeConnections.get(sessionId);
+  if (!connection) {
+    return;
+  }
+
+  activeConnections.delete(sessionId);
+  connection.server.close().catch(() => {});
+}
+
 // Helper to send SSE message
 function sendSSEMessage(res: Response, data: any) {
   // MCP SSE requires explicit "message" event type for JSON-RPC responses
@@ -235,6 +112,39 @@ function sendSSEMessage(res: Response, data: any) {
   }
 }
 
+/**
+ * SDK transport over our hand-rolled SSE stream: messages POSTed to /message
+ * are fed in through handleMessage, responses go out as SSE "message" events
+ */
+class SSEResponseTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  constructor(private res: Response, readonly sessionId: string) {}
+
+  // The SSE stream is already open by the time the server connects
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.res.writable) {
+      throw new Error('SSE connection closed');
+    }
+    sendSSEMessage(this.res, message);
+  }
+
+  async close(): Promise<void> {
+    if (!this.res.writableEnded) {
+      this.res.end();
+    }
+    this.onclose?.();
+  }
+
+  handleMessage(message: JSONRPCMessage) {
+    this.onmessage?.(message);
+  }
+}
+
 // Authentication middleware
 const authenticate = (req: Request, res: Response, next: express.NextFunction) => {
   // Check multiple auth methods
@@ -267,7 +177,12 @@ const authenticate = (req: Request, res: Response, next: express.NextFunction) =
 
 // Health check endpoint
 app.get('/health', (_req, res) => {
-  res.json({ status: 'ok', server: 'amazon-mcp-server' });
+  res.json({
+    status: 'ok',
+    server: 'amazon-mcp-server',
+    sessions: { sse: activeConnections.size, streamableHttp: httpSessions.size },
+    browserQueue: getQueueStats(),
+  });
 });
 
 // SSE endpoint for MCP
@@ -293,11 +208,17 @@ app.get('/sse', authenticate, async (req: Request, res: Response) => {
   }
 
   // Generate session ID
-  const sessionId = `session_${Date.now()}_${Math.random().toString(36).substring(7)}`;
+  const sessionId = randomUUID();
   console.log('Created SSE session:', sessionId);
 
+  // Each connection gets its own MCP server; tool calls share the browser operation queue
+  const transport = new SSEResponseTransport(res, sessionId);
+  const server = createMcpServer();
+  await server.connect(transport);
+
   // Store connection
-  activeConnections.set(sessionId, { res, sessionId });
+  const now = Date.now();
+  activeConnections.set(sessionId, { res, sessionId, createdAt: now, lastActivityAt: now, transport, server });
 
   // Send initial comment to establish connection
   res.write(': connected\n\n');
@@ -305,7 +226,7 @@ app.get('/sse', authenticate, async (req: Request, res: Response) => {
   // Send endpoint event telling client where to POST messages
   const protocol = req.headers['x-forwarded-proto'] || 'http';
   const host = req.headers['x-forwarded-host'] || req.headers.host;
-  const endpoint = `${protocol}://${host}/message`;
+  const endpoint = `${protocol}://${host}/message?sessionId=${encodeURIComponent(sessionId)}`;
 
   res.write('event: endpoint\n');
   res.write(`data: ${endpoint}\n\n`);
@@ -319,7 +240,7 @@ app.get('/sse', authenticate, async (req: Request, res: Response) => {
     } else {
       console.log(`[${sessionId}] Connection no longer writable, stopping heartbeat`);
       clearInterval(heartbeat);
-      activeConnections.delete(sessionId);
+      closeSession(sessionId);
     }
   }, 15000);
 
@@ -327,19 +248,19 @@ app.get('/sse', authenticate, async (req: Request, res: Response) => {
   req.on('close', () => {
     console.log(`[${sessionId}] Request closed (active connections: ${activeConnections.size})`);
     clearInterval(heartbeat);
-    activeConnections.delete(sessionId);
+    closeSession(sessionId);
   });
 
   res.on('close', () => {
     console.log(`[${sessionId}] Response closed (active connections: ${activeConnections.size})`);
     clearInterval(heartbeat);
-    activeConnections.delete(sessionId);
+    closeSession(sessionId);
   });
 
   res.on('error', (err) => {
     console.error(`[${sessionId}] SSE error:`, err.message);
     clearInterval(heartbeat);
-    activeConnections.delete(sessionId);
+    closeSession(sessionId);
   });
 
   res.on('finish', () => {
@@ -369,269 +290,202 @@ app.post('/message', authenticate, async (req: Request, res: Response) => {
     return;
   }
 
-  // Find the most recent SSE connection (there should typically only be one)
-  const connection = Array.from(activeConnections.values())[0];
+  // Route strictly to the session named in the endpoint URL we sent
+  const sessionId = req.query.sessionId as string | undefined;
+  if (!sessionId) {
+    console.error('ERROR: Message without sessionId');
+    res.status(400).json({
+      jsonrpc: '2.0',
+      error: { code: -32600, message: 'Missing sessionId query parameter' },
+      id: jsonrpcRequest?.id || null
+    });
+    return;
+  }
+
+  const connection = activeConnections.get(sessionId);
 
   if (!connection) {
-    console.error('ERROR: No active SSE connection found!');
+    console.error('ERROR: Unknown SSE session:', sessionId);
     console.error('Available connections:', Array.from(activeConnections.keys()));
-    res.status(503).json({
+    res.status(404).json({
       jsonrpc: '2.0',
-      error: { code: -32000, message: 'No active connection' },
+      error: { code: -32000, message: 'Session not found' },
       id: jsonrpcRequest?.id || null
     });
     return;
   }
 
+  connection.lastActivityAt = Date.now();
   console.log('Using SSE session:', connection.sessionId);
   console.log('Connection writable:', connection.res.writable);
 
-  try {
-    // Check if this is a notification (no id field) or a request
-    // In JSON-RPC 2.0, notifications are requests without an 'id' field
-    const isNotification = !('id' in jsonrpcRequest);
-
-    if (isNotification) {
-      // Notifications don't get responses, just acknowledge
-      console.log('Received notification:', jsonrpcRequest.method);
-      res.status(202).end();
-      return;
-    }
+  // Check if connection is still writable before handing the message over
+  if (!connection.res.writable) {
+    console.error('ERROR: SSE connection is not writable!');
+    res.status(503).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: 'SSE connection closed' },
+      id: jsonrpcRequest?.id || null
+    });
+    return;
+  }
 
-    // Process JSON-RPC request
-    let response;
+  // The MCP server answers requests over the SSE stream; notifications get no response
+  connection.transport.handleMessage(jsonrpcRequest);
 
-    // Route the request to the appropriate MCP handler
-    if (jsonrpcRequest.method === 'initialize') {
-      response = {
-        jsonrpc: '2.0',
-        id: jsonrpcRequest.id,
-        result: {
-          protocolVersion: '2024-11-05',
-          capabilities: {
-            tools: {},
-            resources: {},
-            prompts: {},
-          },
-          serverInfo: {
-            name: 'amazon-cart-server',
-            version: '1.0.0',
-          },
-        },
-      };
-    } else if (jsonrpcRequest.method === 'tools/list') {
-      console.log('List tools request received');
-      response = {
-        jsonrpc: '2.0',
-        id: jsonrpcRequest.id,
-        result: {
-          tools: [
-            {
-              name: 'search_amazon',
-              description: 'Search for products on Amazon',
-              inputSchema: {
-                type: 'object',
-                properties: {
-                  query: {
-                    type: 'string',
-                    description: 'Search query for Amazon products',
-                  },
-                },
-                required: ['query'],
-              },
-            },
-            {
-              name: 'add_to_cart',
-              description: 'Add a product to Amazon cart',
-              inputSchema: {
-                type: 'object',
-                properties: {
-                  query: {
-                    type: 'string',
-                    description: 'Product name to search and add',
-                  },
-                  asin: {
-                    type: 'string',
-                    description: 'Amazon ASIN (product ID) - use this if known',
-                  },
-                  quantity: {
-                    type: 'number',
-                    description: 'Quantity to add (default: 1)',
-                    default: 1,
-                  },
-                },
-              },
-            },
-            {
-              name: 'view_cart',
-              description: 'View current Amazon cart contents',
-              inputSchema: {
-                type: 'object',
-                properties: {},
-              },
-            },
-            {
-              name: 'check_login',
-              description: 'Check if logged into Amazon',
-              inputSchema: {
-                type: 'object',
-                properties: {},
-              },
-            },
-            {
-              name: 'save_session',
-              description: '(Optional) Manually trigger session save. Sessions are automatically saved periodically, after operations, and on shutdown, so this is typically not needed.',
-              inputSchema: {
-                type: 'object',
-                properties: {},
-              },
-            },
-          ],
-        },
-      };
-    } else if (jsonrpcRequest.method === 'tools/call') {
-      console.log('Tool call request:', jsonrpcRequest.params);
-      const toolName = jsonrpcRequest.params.name;
-      const toolArgs = jsonrpcRequest.params.arguments || {};
-
-      let toolResult;
-      try {
-        switch (toolName) {
-          case 'search_amazon':
-            toolResult = await searchProducts(toolArgs.query);
-            break;
-          case 'add_to_cart':
-            toolResult = await addToCart(toolArgs);
-            break;
-          case 'view_cart':
-            toolResult = await getCart();
-            break;
-          case 'check_login':
-            toolResult = await checkLoginStatus();
-            break;
-          case 'save_session':
-            const sessionPage = await getPage();
-            await saveAmazonSession(sessionPage);
-            toolResult = {
-              success: true,
-              message: 'Amazon session saved successfully. Your login will persist across server restarts.',
-            };
-            break;
-          default:
-            throw new Error(`Unknown tool: ${toolName}`);
-        }
+  // Acknowledge receipt of POST
+  res.status(202).end();
+});
 
-        response = {
-          jsonrpc: '2.0',
-          id: jsonrpcRequest.id,
-          result: {
-            content: [
-              {
-                type: 'text',
-                text: JSON.stringify(toolResult, null, 2),
-              },
-            ],
-          },
-        };
-      } catch (error) {
-        response = {
-          jsonrpc: '2.0',
-          id: jsonrpcRequest.id,
-          error: {
-            code: -32603,
-            message: error instanceof Error ? error.message : 'Tool execution failed',
-          },
-        };
-      }
-    } else {
-      // Unknown method
-      response = {
-        jsonrpc: '2.0',
-        id: jsonrpcRequest.id,
-        error: {
-          code: -32601,
-          message: `Method not found: ${jsonrpcRequest.method}`,
-        },
-      };
-    }
+// Streamable HTTP endpoint for MCP: POST carries client messages, GET opens the
+// server-to-client stream and DELETE ends the session
+app.post('/mcp', authenticate, async (req: Request, res: Response) => {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  let transport = sessionId ? httpSessions.get(sessionId) : undefined;
 
-    // Check if connection is still writable before sending
-    if (!connection.res.writable) {
-      console.error('ERROR: SSE connection is not writable!');
-      res.status(503).json({
+  if (!transport) {
+    if (sessionId || !isInitializeRequest(req.body)) {
+      res.status(sessionId ? 404 : 400).json({
         jsonrpc: '2.0',
-        error: { code: -32000, message: 'SSE connection closed' },
-        id: jsonrpcRequest?.id || null
+        error: { code: -32000, message: sessionId ? 'Session not found' : 'Missing Mcp-Session-Id header' },
+        id: req.body?.id || null
       });
       return;
     }
 
-    // Send response via SSE
-    sendSSEMessage(connection.res, response);
+    const newTransport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        httpSessions.set(id, newTransport);
+        console.log(`[${id}] Streamable HTTP session established (total active: ${httpSessions.size})`);
+      },
+    });
+    newTransport.onclose = () => {
+      if (newTransport.sessionId) {
+        httpSessions.delete(newTransport.sessionId);
+        console.log(`[${newTransport.sessionId}] Streamable HTTP session closed`);
+      }
+    };
 
-    // Acknowledge receipt of POST
-    res.status(202).end();
+    await createMcpServer().connect(newTransport);
+    transport = newTransport;
+  }
+
+  try {
+    await transport.handleRequest(req, res, req.body);
   } catch (error) {
-    console.error('Error handling message:', error);
+    console.error('Error handling /mcp request:', error);
     if (!res.headersSent) {
       res.status(500).json({
         jsonrpc: '2.0',
         error: { code: -32603, message: 'Internal error' },
-        id: jsonrpcRequest?.id || null
+        id: null
       });
     }
   }
 });
 
-// Start server
-app.listen(PORT, async () => {
-  console.log(`Amazon MCP Server running on port ${PORT}`);
-  console.log(`Use ngrok to expose: ngrok http ${PORT}`);
-  console.log(`Health check: http://localhost:${PORT}/health`);
+const handleMcpSessionRequest = async (req: Request, res: Response) => {
+  const sessionId = req.headers['mcp-session-id'] as string | undefined;
+  const transport = sessionId ? httpSessions.get(sessionId) : undefined;
+
+  if (!transport) {
+    res.status(sessionId ? 404 : 400).json({
+      jsonrpc: '2.0',
+      error: { code: -32000, message: sessionId ? 'Session not found' : 'Missing Mcp-Session-Id header' },
+      id: null
+    });
+    return;
+  }
+
+  await transport.handleRequest(req, res);
+};
+
+app.get('/mcp', authenticate, handleMcpSessionRequest);
+app.delete('/mcp', authenticate, handleMcpSessionRequest);
+
+/**
+ * Save the session of every profile whose browser is running
+ */
+async function saveAllSessions(): Promise<void> {
+  for (const profile of getLaunchedProfiles()) {
+    await withProfile(profile.name, async () => {
+      const page = await getPage();
+      await saveAmazonSession(page);
+    });
+  }
+}
 
-  // Initialize browser and open Amazon for login
-  console.log('\nInitializing browser...');
+/**
+ * Re-check the price watches of every profile, one queued operation per
+ * watch so a long list neither runs into the operation timeout nor holds up
+ * tool calls. Subscribers to amazon://price-watches hear about triggers.
+ */
+async function checkAllPriceWatches(): Promise<void> {
+  for (const profile of listProfiles()) {
+    for (const asin of watchedAsins(profile)) {
+      try {
+        const triggered = await withProfile(profile.name,
+          () => runBrowserOperation('price_watch_check', () => checkPriceWatch(asin)));
+        if (triggered) {
+          notifyResourceUpdated(PRICE_WATCHES_URI);
+        }
+      } catch (error) {
+        console.error(`⚠️  Price watch: checking ${asin} for profile "${profile.name}" failed:`, error);
+      }
+    }
+  }
+}
+
+// Initialize the active profile's browser and open Amazon for login
+async function initializeBrowser() {
+  console.log(`\nInitializing browser for profile "${getActiveProfile().name}"...`);
   try {
+    // Launching restores the profile's saved session
     await getBrowser();
     const page = await getPage();
-    const AMAZON_DOMAIN = process.env.AMAZON_DOMAIN || 'amazon.com';
-
-    // Try to restore previous session first
-    const restored = await restoreAmazonSession(page);
 
-    await page.goto(`https://www.${AMAZON_DOMAIN}`, { waitUntil: 'networkidle2' });
+    await page.goto(baseUrl(), { waitUntil: 'networkidle2' });
 
-    if (restored) {
+    if (await isLoggedIn(page)) {
       console.log('✓ Browser opened with restored session!');
     } else {
-      console.log('✓ Browser opened! Please log into Amazon if needed.');
+      console.log('✓ Browser opened! Please log into Amazon if needed (or use the login tool).');
     }
     console.log('✓ Your session will be automatically saved.\n');
 
     // Set up periodic session saving (every 5 minutes)
     setInterval(async () => {
       try {
-        const currentPage = await getPage();
-        await saveAmazonSession(currentPage);
+        await saveAllSessions();
         console.log('✓ Session auto-saved');
       } catch (error) {
         console.error('Failed to auto-save session:', error);
       }
     }, 5 * 60 * 1000); // 5 minutes
 
+    // Periodic price watch checks (0 disables them)
+    if (PRICE_CHECK_INTERVAL_MINUTES > 0) {
+      setInterval(async () => {
+        try {
+          await checkAllPriceWatches();
+        } catch (error) {
+          console.error('Failed to check price watches:', error);
+        }
+      }, PRICE_CHECK_INTERVAL_MINUTES * 60 * 1000);
+    }
+
   } catch (error) {
     console.error('✗ Failed to initialize browser:', error);
   }
-});
+}
 
-// Cleanup on exit
-process.on('SIGINT', async () => {
+async function shutdown() {
   console.log('\nShutting down...');
 
   // Save session before closing browser
   try {
-    const page = await getPage();
-    await saveAmazonSession(page);
+    await saveAllSessions();
     console.log('✓ Session saved before shutdown');
   } catch (error) {
     console.error('Failed to save session before shutdown:', error);
@@ -639,4 +493,34 @@ process.on('SIGINT', async () => {
 
   await closeBrowser();
   process.exit(0);
-});
+}
+
+// Start server
+if (TRANSPORT === 'stdio') {
+  // A single local client launches us and talks over stdin/stdout
+  const transport = new StdioServerTransport();
+
+  // The client closing our stdin means it is done with us
+  process.stdin.on('end', shutdown);
+
+  createMcpServer().connect(transport).then(() => {
+    console.log('Amazon MCP Server running on stdio');
+    initializeBrowser();
+  }).catch(error => {
+    console.error('✗ Failed to start stdio transport:', error);
+    process.exit(1);
+  });
+} else {
+  app.listen(PORT, async () => {
+    console.log(`Amazon MCP Server running on port ${PORT}`);
+    console.log(`Streamable HTTP endpoint: http://localhost:${PORT}/mcp`);
+    console.log(`Legacy SSE endpoint: http://localhost:${PORT}/sse`);
+    console.log(`Use ngrok to expose: ngrok http ${PORT}`);
+    console.log(`Health check: http://localhost:${PORT}/health`);
+
+    await initializeBrowser();
+  });
+}
+
+// Cleanup on exit
+process.on('SIGINT', shutdown);
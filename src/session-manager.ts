@@ -1,22 +1,10 @@
 import { Page } from 'puppeteer';
-import fs from 'fs';
-import path from 'path';
-
-const COOKIES_FILE = path.resolve('./user-data/amazon-session-cookies.json');
-
-interface SerializedCookie {
-  name: string;
-  value: string;
-  domain: string;
-  path: string;
-  expires: number;
-  httpOnly: boolean;
-  secure: boolean;
-  sameSite: 'Strict' | 'Lax' | 'None';
-}
+import { findSelector, textFor } from './selectors';
+import { SerializedCookie, getSessionStore, legacySessionFiles, migrateLegacySession } from './session-store';
+import { currentProfile } from './profiles';
 
 /**
- * Save current Amazon cookies to a JSON file with extended expiration
+ * Save current Amazon cookies to the session store with extended expiration
  * This works around session-only cookies that expire when browser closes
  */
 export async function saveAmazonSession(page: Page): Promise<void> {
@@ -26,14 +14,15 @@ export async function saveAmazonSession(page: Page): Promise<void> {
 
     // Convert session cookies to persistent ones by setting expiration
     const oneYearFromNow = Date.now() / 1000 + (365 * 24 * 60 * 60);
-    const persistentCookies = amazonCookies.map(cookie => ({
+    const persistentCookies: SerializedCookie[] = amazonCookies.map(cookie => ({
       ...cookie,
       // If cookie has no expiration (session cookie), set it to 1 year from now
       expires: cookie.expires && cookie.expires > 0 ? cookie.expires : oneYearFromNow,
     }));
 
-    fs.writeFileSync(COOKIES_FILE, JSON.stringify(persistentCookies, null, 2));
-    console.log(`✓ Saved ${persistentCookies.length} Amazon cookies to ${COOKIES_FILE}`);
+    const store = getSessionStore();
+    await store.save(persistentCookies);
+    console.log(`✓ Saved ${persistentCookies.length} Amazon cookies to ${store.location}`);
 
     const sessionCookies = amazonCookies.filter(c => !c.expires || c.expires === -1);
     if (sessionCookies.length > 0) {
@@ -45,19 +34,21 @@ export async function saveAmazonSession(page: Page): Promise<void> {
 }
 
 /**
- * Restore Amazon cookies from the saved JSON file
- * Call this after browser launch to restore the session
+ * Restore Amazon cookies from the session store, migrating a plaintext file
+ * from earlier versions first. Call this after browser launch to restore the session
  */
 export async function restoreAmazonSession(page: Page): Promise<boolean> {
   try {
-    if (!fs.existsSync(COOKIES_FILE)) {
+    const profile = currentProfile();
+    const store = getSessionStore(profile);
+    await migrateLegacySession(store, legacySessionFiles(profile));
+
+    const cookies = await store.load();
+    if (!cookies) {
       console.log('ℹ No saved Amazon session found');
       return false;
     }
 
-    const cookiesData = fs.readFileSync(COOKIES_FILE, 'utf-8');
-    const cookies: SerializedCookie[] = JSON.parse(cookiesData);
-
     // Filter out expired cookies
     const now = Date.now() / 1000;
     const validCookies = cookies.filter(c => c.expires > now);
@@ -76,22 +67,36 @@ export async function restoreAmazonSession(page: Page): Promise<boolean> {
 
     return true;
   } catch (error) {
-    console.error('Failed to restore Amazon session:', error);
+    console.error('Failed to restore Amazon session:', error instanceof Error ? error.message : error);
     return false;
   }
 }
 
+/**
+ * Read the account menu text and whether it shows the signed-in greeting
+ */
+export async function getAccountStatus(page: Page): Promise<{ isLoggedIn: boolean; accountText: string }> {
+  const accountSelector = await findSelector(page, 'nav.accountName');
+  const accountText = accountSelector
+    ? await page.$eval(accountSelector, el => el.textContent?.trim() || '')
+    : '';
+
+  const lowerText = accountText.toLowerCase();
+  const greeted = textFor('nav.signedInGreeting').some(greeting => accountText.includes(greeting));
+  const signedOut = textFor('nav.signedOutMarker').some(marker => lowerText.includes(marker.toLowerCase()));
+
+  return {
+    isLoggedIn: greeted && !signedOut,
+    accountText,
+  };
+}
+
 /**
  * Check if the user is currently logged in to Amazon
  */
 export async function isLoggedIn(page: Page): Promise<boolean> {
   try {
-    const accountText = await page.evaluate(() => {
-      const accountList = document.querySelector('#nav-link-accountList-nav-line-1');
-      return accountList?.textContent?.trim() || '';
-    });
-
-    return accountText.includes('Hello');
+    return (await getAccountStatus(page)).isLoggedIn;
   } catch {
     return false;
   }
@@ -0,0 +1,276 @@
+import fs from 'fs';
+import path from 'path';
+import crypto from 'crypto';
+import type { CookieSameSite } from 'puppeteer';
+import { Profile, currentProfile } from './profiles';
+
+/**
+ * Storage for the saved Amazon cookies. The default store encrypts them with
+ * AES-256-GCM, so the file is unreadable and tamper-evident without the key.
+ *
+ * The key comes from, in order:
+ *   1. SESSION_ENCRYPTION_KEY - 32 bytes as hex or base64
+ *   2. SESSION_PASSPHRASE - stretched with scrypt, using the salt in the key file
+ *   3. A random key generated into the key file on first use. It sits in
+ *      plain text next to the cookies, so it only obscures them.
+ *
+ * The key file is SESSION_KEY_FILE, or session-key.json in the profile's user-data dir.
+ */
+
+export interface SerializedCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path: string;
+  expires: number;
+  httpOnly?: boolean;
+  secure: boolean;
+  sameSite?: CookieSameSite;
+}
+
+export interface SessionStore {
+  // Where the session lives, for log messages
+  readonly location: string;
+  // Returns null when nothing has been saved yet
+  load(): Promise<SerializedCookie[] | null>;
+  save(cookies: SerializedCookie[]): Promise<void>;
+}
+
+interface EncryptedEnvelope {
+  version: 1;
+  algorithm: 'aes-256-gcm';
+  iv: string;        // base64
+  authTag: string;   // base64
+  data: string;      // base64 ciphertext of the cookie JSON
+}
+
+interface KeyFile {
+  kdf: 'scrypt' | 'none';
+  salt?: string;     // base64, when derived from a passphrase
+  key?: string;      // base64, when randomly generated
+}
+
+const ROOT_USER_DATA_DIR = path.resolve(process.env.USER_DATA_DIR || './user-data');
+
+const KEY_LENGTH = 32;
+const SCRYPT_PARAMS = { N: 2 ** 15, r: 8, p: 1, maxmem: 64 * 1024 * 1024 };
+
+export class SessionIntegrityError extends Error {
+  constructor(file: string, reason: string) {
+    super(`Saved session ${file} failed its integrity check (${reason}). Log in again to create a new one.`);
+    this.name = 'SessionIntegrityError';
+  }
+}
+
+/**
+ * Write a file via a temp file and rename, so a crash never leaves a partial file,
+ * readable only by the current user
+ */
+export function writeFileAtomic(file: string, contents: string): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true, mode: 0o700 });
+  const tempFile = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+
+  const fd = fs.openSync(tempFile, 'w', 0o600);
+  try {
+    fs.writeFileSync(fd, contents);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+
+  try {
+    fs.renameSync(tempFile, file);
+  } catch (error) {
+    fs.rmSync(tempFile, { force: true });
+    throw error;
+  }
+  // rename keeps the temp file's mode, but an existing file may predate this code
+  fs.chmodSync(file, 0o600);
+}
+
+function decodeKey(value: string): Buffer {
+  const trimmed = value.trim();
+  const key = /^[0-9a-f]{64}$/i.test(trimmed) ? Buffer.from(trimmed, 'hex') : Buffer.from(trimmed, 'base64');
+  if (key.length !== KEY_LENGTH) {
+    throw new Error(`SESSION_ENCRYPTION_KEY must be ${KEY_LENGTH} bytes as hex or base64 (generate one with: openssl rand -hex 32)`);
+  }
+  return key;
+}
+
+function readKeyFile(keyFilePath: string): KeyFile | null {
+  if (!fs.existsSync(keyFilePath)) {
+    return null;
+  }
+  return JSON.parse(fs.readFileSync(keyFilePath, 'utf-8'));
+}
+
+/**
+ * Resolve the encryption key from env, a passphrase, or the generated key file
+ */
+export function resolveSessionKey(keyFilePath: string): Buffer {
+  if (process.env.SESSION_ENCRYPTION_KEY) {
+    return decodeKey(process.env.SESSION_ENCRYPTION_KEY);
+  }
+
+  const keyFile = readKeyFile(keyFilePath);
+
+  if (process.env.SESSION_PASSPHRASE) {
+    let salt = keyFile?.kdf === 'scrypt' && keyFile.salt ? Buffer.from(keyFile.salt, 'base64') : null;
+    if (!salt) {
+      salt = crypto.randomBytes(16);
+      writeFileAtomic(keyFilePath, JSON.stringify({ kdf: 'scrypt', salt: salt.toString('base64') }, null, 2));
+    }
+    return crypto.scryptSync(process.env.SESSION_PASSPHRASE, salt, KEY_LENGTH, SCRYPT_PARAMS);
+  }
+
+  if (keyFile?.kdf === 'scrypt') {
+    throw new Error(`${keyFilePath} expects a passphrase; set SESSION_PASSPHRASE`);
+  }
+  console.log(`⚠️  No SESSION_ENCRYPTION_KEY or SESSION_PASSPHRASE set - the session key is stored in plain text in ${keyFilePath}. ` +
+    'Anyone who can read the saved cookies can read it too, so they are obscured, not protected.');
+  if (keyFile?.key) {
+    return decodeKey(keyFile.key);
+  }
+
+  console.log(`⚠️  Generating a session key in ${keyFilePath}`);
+  const key = crypto.randomBytes(KEY_LENGTH);
+  writeFileAtomic(keyFilePath, JSON.stringify({ kdf: 'none', key: key.toString('base64') }, null, 2));
+  return key;
+}
+
+function isCookie(value: any): value is SerializedCookie {
+  return value && typeof value === 'object'
+    && typeof value.name === 'string'
+    && typeof value.value === 'string'
+    && typeof value.domain === 'string'
+    && typeof value.expires === 'number';
+}
+
+/**
+ * AES-256-GCM encrypted cookie file. The GCM auth tag rejects any file that
+ * was modified or encrypted with a different key.
+ */
+export class EncryptedFileSessionStore implements SessionStore {
+  private key: Buffer | null = null;
+
+  constructor(readonly location: string, private keyProvider: () => Buffer) {}
+
+  private getKey(): Buffer {
+    if (!this.key) {
+      this.key = this.keyProvider();
+    }
+    return this.key;
+  }
+
+  async load(): Promise<SerializedCookie[] | null> {
+    if (!fs.existsSync(this.location)) {
+      return null;
+    }
+
+    let envelope: EncryptedEnvelope;
+    try {
+      envelope = JSON.parse(fs.readFileSync(this.location, 'utf-8'));
+    } catch {
+      throw new SessionIntegrityError(this.location, 'not valid JSON');
+    }
+    if (envelope.version !== 1 || envelope.algorithm !== 'aes-256-gcm' || !envelope.iv || !envelope.authTag || !envelope.data) {
+      throw new SessionIntegrityError(this.location, 'unrecognized format');
+    }
+
+    let plaintext: string;
+    try {
+      const decipher = crypto.createDecipheriv('aes-256-gcm', this.getKey(), Buffer.from(envelope.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(envelope.authTag, 'base64'));
+      plaintext = Buffer.concat([
+        decipher.update(Buffer.from(envelope.data, 'base64')),
+        decipher.final(),
+      ]).toString('utf-8');
+    } catch {
+      throw new SessionIntegrityError(this.location, 'wrong key or the file was modified');
+    }
+
+    const cookies = JSON.parse(plaintext);
+    if (!Array.isArray(cookies) || !cookies.every(isCookie)) {
+      throw new SessionIntegrityError(this.location, 'unexpected contents');
+    }
+    return cookies;
+  }
+
+  async save(cookies: SerializedCookie[]): Promise<void> {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.getKey(), iv);
+    const data = Buffer.concat([cipher.update(JSON.stringify(cookies), 'utf-8'), cipher.final()]);
+
+    const envelope: EncryptedEnvelope = {
+      version: 1,
+      algorithm: 'aes-256-gcm',
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      data: data.toString('base64'),
+    };
+    writeFileAtomic(this.location, JSON.stringify(envelope, null, 2));
+  }
+}
+
+/**
+ * Move cookies saved as plaintext by earlier versions into the store, then
+ * delete the plaintext file. Returns the number of cookies migrated.
+ */
+export async function migrateLegacySession(store: SessionStore, legacyFiles: string[]): Promise<number> {
+  let migrated = 0;
+
+  for (const legacyFile of new Set(legacyFiles)) {
+    if (!fs.existsSync(legacyFile)) {
+      continue;
+    }
+
+    let cookies: unknown;
+    try {
+      cookies = JSON.parse(fs.readFileSync(legacyFile, 'utf-8'));
+    } catch {
+      // Truncated or corrupt; left in place like any other unreadable file
+      cookies = null;
+    }
+    if (!Array.isArray(cookies) || !cookies.every(isCookie)) {
+      console.error(`⚠️  Skipping unreadable legacy session file ${legacyFile}`);
+      continue;
+    }
+
+    if (migrated === 0 && !(await store.load())) {
+      await store.save(cookies);
+      migrated = cookies.length;
+      fs.rmSync(legacyFile);
+      console.log(`✓ Migrated plaintext session ${legacyFile} to ${store.location} and deleted it`);
+    } else {
+      // An encrypted session already exists and is newer than anything we'd migrate
+      fs.rmSync(legacyFile);
+      console.log(`✓ Deleted stale plaintext session ${legacyFile}`);
+    }
+  }
+
+  return migrated;
+}
+
+/**
+ * Where earlier versions saved a profile's cookies as plaintext JSON
+ */
+export function legacySessionFiles(profile: Profile): string[] {
+  const files = [path.join(profile.userDataDir, 'amazon-session-cookies.json')];
+  // Earlier versions always wrote to ./user-data, whatever USER_DATA_DIR said
+  if (profile.userDataDir === ROOT_USER_DATA_DIR) {
+    files.push(path.resolve('./user-data/amazon-session-cookies.json'));
+  }
+  return files;
+}
+
+const stores = new Map<string, SessionStore>();
+
+export function getSessionStore(profile: Profile = currentProfile()): SessionStore {
+  let store = stores.get(profile.name);
+  if (!store) {
+    const keyFile = path.resolve(process.env.SESSION_KEY_FILE || path.join(profile.userDataDir, 'session-key.json'));
+    store = new EncryptedFileSessionStore(profile.sessionFile, () => resolveSessionKey(keyFile));
+    stores.set(profile.name, store);
+  }
+  return store;
+}
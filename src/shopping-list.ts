@@ -0,0 +1,155 @@
+import { addToCart, getCart, getProductDetails, searchProducts } from './amazon';
+import { parseAmount } from './money';
+import { AddItemsParams, BatchItemResult, CartItem, CartVerification, OperationResult, ProductDetails } from './types';
+
+/**
+ * Adding a whole shopping list to the cart in one browser operation: resolve
+ * every entry to a product, add them one by one, then check the cart holds
+ * what was asked for.
+ */
+
+/**
+ * Find the product an entry refers to. Queries take the first search result,
+ * like add_to_cart does.
+ */
+async function resolveEntry(result: BatchItemResult): Promise<ProductDetails> {
+  let asin = result.asin;
+  if (!asin) {
+    const search = await searchProducts({ query: result.query!, limit: 1 });
+    if (!search.success) {
+      throw new Error(search.error || search.message);
+    }
+    asin = search.data[0]?.asin;
+    if (!asin) {
+      throw new Error(`No search results for "${result.query}"`);
+    }
+  }
+
+  const product = await getProductDetails(asin);
+  if (!product.success) {
+    throw new Error(product.error || product.message);
+  }
+  return product.data;
+}
+
+async function readCartQuantities(): Promise<Map<string, number>> {
+  const cart = await getCart();
+  if (!cart.success) {
+    throw new Error(`Could not read the cart: ${cart.error}`);
+  }
+  return new Map((cart.data.items as CartItem[]).map(item => [item.asin, item.quantity]));
+}
+
+function countByStatus(results: BatchItemResult[]): Record<BatchItemResult['status'], number> {
+  const counts = { resolved: 0, added: 0, skipped: 0, failed: 0 };
+  results.forEach(result => counts[result.status]++);
+  return counts;
+}
+
+export async function addItemsToCart(params: AddItemsParams): Promise<OperationResult> {
+  try {
+    const results: BatchItemResult[] = params.items.map((entry, index) => ({
+      index,
+      query: entry.query,
+      asin: entry.asin,
+      quantity: entry.quantity || 1,
+      status: 'resolved',
+    }));
+
+    // Resolve everything up front so a dry run and a real run see the same products
+    const firstByAsin = new Map<string, BatchItemResult>();
+    for (const result of results) {
+      let product: ProductDetails;
+      try {
+        product = await resolveEntry(result);
+      } catch (error) {
+        result.status = 'failed';
+        result.reason = error instanceof Error ? error.message : String(error);
+        continue;
+      }
+
+      result.asin = product.asin;
+      result.title = product.title;
+      result.price = product.price;
+
+      if (!product.inStock) {
+        result.status = 'skipped';
+        result.reason = `Not available: ${product.availability}`;
+        continue;
+      }
+
+      const first = firstByAsin.get(product.asin);
+      if (first) {
+        first.quantity += result.quantity;
+        result.status = 'skipped';
+        result.reason = `Same product as item ${first.index}; quantities combined`;
+        continue;
+      }
+      firstByAsin.set(product.asin, result);
+    }
+
+    const toAdd = results.filter(result => result.status === 'resolved');
+
+    if (params.dryRun) {
+      const estimatedSubtotal = toAdd.reduce((sum, result) => sum + (parseAmount(result.price) || 0) * result.quantity, 0);
+      const counts = countByStatus(results);
+      return {
+        success: counts.failed === 0,
+        message: `Dry run: ${counts.resolved} item(s) would be added` +
+          `${counts.skipped ? `, ${counts.skipped} skipped` : ''}${counts.failed ? `, ${counts.failed} could not be resolved` : ''}. Nothing was added to the cart.`,
+        data: {
+          dryRun: true,
+          items: results,
+          estimatedSubtotal: Number(estimatedSubtotal.toFixed(2)),
+        },
+      };
+    }
+
+    const before = await readCartQuantities();
+
+    for (const result of toAdd) {
+      const added = await addToCart({ asin: result.asin, quantity: result.quantity });
+      if (added.success) {
+        result.status = 'added';
+      } else {
+        result.status = 'failed';
+        result.reason = added.error || added.message;
+      }
+    }
+
+    // Check every added item actually landed, with the requested quantity on top of what was there
+    const after = await readCartQuantities();
+    const verification: CartVerification = { verified: true, mismatches: [] };
+    for (const result of results.filter(r => r.status === 'added')) {
+      const expectedQuantity = (before.get(result.asin!) || 0) + result.quantity;
+      const actualQuantity = after.get(result.asin!) || 0;
+      if (actualQuantity !== expectedQuantity) {
+        verification.verified = false;
+        verification.mismatches.push({ asin: result.asin!, expectedQuantity, actualQuantity });
+        result.status = 'failed';
+        result.reason = `Cart has quantity ${actualQuantity}, expected ${expectedQuantity}`;
+      }
+    }
+
+    const counts = countByStatus(results);
+    return {
+      success: counts.failed === 0,
+      message: `Added ${counts.added} of ${results.length} item(s) to cart` +
+        `${counts.skipped ? `, ${counts.skipped} skipped` : ''}${counts.failed ? `, ${counts.failed} failed` : ''}` +
+        (verification.verified ? '; cart verified' : '; cart does not match the request'),
+      data: {
+        items: results,
+        verification,
+      },
+      error: counts.failed > 0
+        ? results.filter(r => r.status === 'failed').map(r => `item ${r.index}: ${r.reason}`).join('; ')
+        : undefined,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to add items to cart',
+      error: error instanceof Error ? error.message : String(error),
+    };
+  }
+}
@@ -0,0 +1,469 @@
+import { Page } from 'puppeteer';
+import { getPage } from './browser';
+import { baseUrl } from './amazon';
+import { parseOrderDate } from './orders';
+import { OperationResult, SubscribeParams, Subscription, UpdateSubscriptionParams } from './types';
+import { saveAmazonSession } from './session-manager';
+import { SelectorField, findSelector, requireElement, requireSelector, selectorMap } from './selectors';
+import { parseAmount, sameAmount, toMoney } from './money';
+import { recordSpend } from './policy';
+import { checkPage, errorCode, navigate } from './page-guard';
+import { CONFIRMATION_TTL_MS, newConfirmationToken, tokensMatch } from './checkout';
+import { currentProfile } from './profiles';
+
+/**
+ * Subscribe & Save: listing subscriptions, skipping a delivery, changing
+ * frequency or quantity, and subscribing from a product page. Changes are
+ * checked by re-reading the subscription list afterwards.
+ */
+
+const SUBSCRIPTIONS_PATH = '/auto-deliveries/subscriptionList';
+const MANAGE_SUBSCRIPTION_PATH = '/auto-deliveries/subscription/manage';
+
+const SUBSCRIPTION_FIELDS = [
+  'subscriptions.title',
+  'subscriptions.productLink',
+  'subscriptions.price',
+  'subscriptions.quantity',
+  'subscriptions.frequency',
+  'subscriptions.nextDelivery',
+  'subscriptions.image',
+] as const;
+
+export interface Frequency {
+  count: number;
+  unit: 'day' | 'week' | 'month';
+}
+
+/**
+ * Parse a delivery frequency ("Every 2 months", "3 weeks", "every month")
+ * into a count and unit, or null if unrecognized
+ */
+export function parseFrequency(text: string): Frequency | null {
+  const match = text.match(/(?:(\d+)\s*)?\b(day|week|month)s?\b/i);
+  if (!match) {
+    return null;
+  }
+  return { count: match[1] ? parseInt(match[1], 10) : 1, unit: match[2].toLowerCase() as Frequency['unit'] };
+}
+
+function sameFrequency(a: Frequency | null, b: Frequency | null): boolean {
+  return !!a && !!b && a.count === b.count && a.unit === b.unit;
+}
+
+/**
+ * Choose the option of a <select> whose label matches a frequency ("2 weeks")
+ * or a number (quantities). Returns the chosen option's label.
+ */
+async function chooseOption(page: Page, field: SelectorField, wanted: string, what: string): Promise<string> {
+  const selector = await requireSelector(page, field, { timeout: 0, context: `to choose the ${what}` });
+  const options = await page.$$eval(`${selector} option`, els => els.map(el => ({
+    value: (el as HTMLOptionElement).value,
+    label: el.textContent?.replace(/\s+/g, ' ').trim() || '',
+  })));
+
+  const frequency = parseFrequency(wanted);
+  const option = what === 'frequency'
+    ? options.find(o => sameFrequency(parseFrequency(o.label), frequency))
+    : options.find(o => o.value === wanted || o.label === wanted);
+  if (!option) {
+    throw new Error(`No ${what} "${wanted}". Available: ${options.map(o => o.label).join(', ')}`);
+  }
+
+  await page.select(selector, option.value);
+  return option.label;
+}
+
+/**
+ * Scrape every subscription card on the loaded subscription list
+ */
+async function readSubscriptions(page: Page): Promise<Subscription[]> {
+  const cardSelector = await findSelector(page, 'subscriptions.card', { timeout: 5000 });
+  if (!cardSelector) {
+    return [];
+  }
+
+  const fields = selectorMap([...SUBSCRIPTION_FIELDS]);
+  const scraped = await page.evaluate((cardSelector: string, fields: Record<string, string[]>) => {
+    const clean = (value: string | null | undefined): string => value?.replace(/\s+/g, ' ').trim() || '';
+    const pick = (root: ParentNode, chain: string[]): Element | null => {
+      for (const selector of chain) {
+        const el = root.querySelector(selector);
+        if (el) return el;
+      }
+      return null;
+    };
+
+    return Array.from(document.querySelectorAll(cardSelector)).map(card => {
+      const href = pick(card, fields['subscriptions.productLink'])?.getAttribute('href') || '';
+      return {
+        subscriptionId: card.getAttribute('data-subscription-id') || '',
+        asin: card.getAttribute('data-asin') || href.match(/\/(?:dp|gp\/product)\/([A-Z0-9]{10})/)?.[1] || undefined,
+        title: clean(pick(card, fields['subscriptions.title'])?.textContent) || 'Unknown',
+        quantity: parseInt(clean(pick(card, fields['subscriptions.quantity'])?.textContent).replace(/[^0-9]/g, ''), 10) || 1,
+        frequency: clean(pick(card, fields['subscriptions.frequency'])?.textContent),
+        nextDelivery: clean(pick(card, fields['subscriptions.nextDelivery'])?.textContent) || undefined,
+        price: clean(pick(card, fields['subscriptions.price'])?.textContent) || undefined,
+        imageUrl: pick(card, fields['subscriptions.image'])?.getAttribute('src') || undefined,
+      };
+    }).filter(subscription => subscription.subscriptionId);
+  }, cardSelector, fields);
+
+  return scraped.map(subscription => ({
+    ...subscription,
+    nextDeliveryIso: subscription.nextDelivery ? parseOrderDate(subscription.nextDelivery) : undefined,
+  }));
+}
+
+async function openSubscriptionList(page: Page): Promise<Subscription[]> {
+  await navigate(page, `${baseUrl()}${SUBSCRIPTIONS_PATH}`);
+  return readSubscriptions(page);
+}
+
+async function findSubscription(page: Page, subscriptionId: string): Promise<Subscription> {
+  const subscriptions = await openSubscriptionList(page);
+  const subscription = subscriptions.find(s => s.subscriptionId === subscriptionId);
+  if (!subscription) {
+    const known = subscriptions.map(s => `${s.subscriptionId} (${s.title})`).join(', ');
+    throw new Error(`Subscription ${subscriptionId} not found${known ? `. Active subscriptions: ${known}` : ''}`);
+  }
+  return subscription;
+}
+
+async function openManagePage(page: Page, subscriptionId: string): Promise<void> {
+  const url = new URL(`${baseUrl()}${MANAGE_SUBSCRIPTION_PATH}`);
+  url.searchParams.set('subscriptionId', subscriptionId);
+  await navigate(page, url.toString());
+}
+
+/**
+ * Click a button that submits a form and wait for the resulting page.
+ * Throws with Amazon's message if the page shows an error alert.
+ */
+async function submitAndCheck(page: Page, field: SelectorField, context: string): Promise<void> {
+  const button = await requireElement(page, field, { context });
+  await Promise.all([
+    page.waitForNavigation({ waitUntil: 'networkidle2' }),
+    button.click(),
+  ]);
+  await checkPage(page);
+
+  const alert = await findSelector(page, 'subscriptions.alert');
+  if (alert) {
+    throw new Error(await page.$eval(alert, el => el.textContent?.replace(/\s+/g, ' ').trim() || 'Amazon reported an error'));
+  }
+}
+
+export async function listSubscriptions(): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+    const subscriptions = await openSubscriptionList(page);
+
+    await saveAmazonSession(page).catch(() => {});
+
+    // Soonest delivery first; undated ones last
+    subscriptions.sort((a, b) => (a.nextDeliveryIso || '9999').localeCompare(b.nextDeliveryIso || '9999'));
+
+    return {
+      success: true,
+      message: `Found ${subscriptions.length} Subscribe & Save subscription(s)`,
+      data: subscriptions,
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to list subscriptions',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+export async function skipNextDelivery(subscriptionId: string): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+    const before = await findSubscription(page, subscriptionId);
+
+    await openManagePage(page, subscriptionId);
+    await submitAndCheck(page, 'subscriptions.skip', 'on the subscription page');
+
+    const after = await findSubscription(page, subscriptionId);
+    await saveAmazonSession(page).catch(() => {});
+
+    if (after.nextDelivery === before.nextDelivery) {
+      throw new Error(`Next delivery is still ${before.nextDelivery || 'unchanged'}; the skip did not take effect`);
+    }
+
+    return {
+      success: true,
+      message: `Skipped the ${before.nextDeliveryIso || before.nextDelivery} delivery of "${after.title}"; ` +
+        `next delivery is ${after.nextDeliveryIso || after.nextDelivery}`,
+      data: { skipped: before.nextDelivery, subscription: after },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to skip delivery',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+export async function updateSubscription(params: UpdateSubscriptionParams): Promise<OperationResult> {
+  try {
+    if (!params.frequency && params.quantity === undefined) {
+      throw new Error('Nothing to change: pass frequency and/or quantity');
+    }
+
+    const page = await getPage();
+    const before = await findSubscription(page, params.subscriptionId);
+
+    await openManagePage(page, params.subscriptionId);
+    const frequency = params.frequency
+      ? await chooseOption(page, 'subscriptions.frequencySelect', params.frequency, 'frequency')
+      : undefined;
+    if (params.quantity !== undefined) {
+      await chooseOption(page, 'subscriptions.quantitySelect', String(params.quantity), 'quantity');
+    }
+    await submitAndCheck(page, 'subscriptions.save', 'on the subscription page');
+
+    const after = await findSubscription(page, params.subscriptionId);
+    await saveAmazonSession(page).catch(() => {});
+
+    const unapplied: string[] = [];
+    if (frequency && !sameFrequency(parseFrequency(after.frequency), parseFrequency(frequency))) {
+      unapplied.push(`frequency is "${after.frequency}"`);
+    }
+    if (params.quantity !== undefined && after.quantity !== params.quantity) {
+      unapplied.push(`quantity is ${after.quantity}`);
+    }
+    if (unapplied.length > 0) {
+      throw new Error(`Amazon did not apply the change: ${unapplied.join(', ')}`);
+    }
+
+    return {
+      success: true,
+      message: `Updated "${after.title}": ${after.frequency}, quantity ${after.quantity}`,
+      data: { before, subscription: after },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to update subscription',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
+
+interface SubscribeOffer {
+  asin: string;
+  title: string;
+  price?: string;           // Subscribe & Save unit price as shown
+  quantity: number;
+  frequency: string;
+}
+
+interface PendingSubscription {
+  token: string;
+  offer: SubscribeOffer;
+  total: number;            // Quoted first order total: price x quantity
+  expiresAt: number;
+}
+
+// One previewed subscription per profile - previewing again replaces it
+const pendingSubscriptions = new Map<string, PendingSubscription>();
+
+/**
+ * First order total quoted by the current profile's pending preview for the ASIN, or null
+ */
+export function pendingSubscriptionTotal(asin: string): number | null {
+  const pending = pendingSubscriptions.get(currentProfile().name);
+  return pending && pending.offer.asin === asin ? pending.total : null;
+}
+
+/**
+ * Open the product page and read its Subscribe & Save offer with the
+ * frequency and quantity chosen
+ */
+async function openOffer(page: Page, asin: string, quantity: number, frequency?: string): Promise<SubscribeOffer> {
+  await navigate(page, `${baseUrl()}/dp/${asin}`);
+  const titleSelector = await findSelector(page, 'product.title', { timeout: 5000 });
+  if (!titleSelector) {
+    throw new Error(`Product page not found for ASIN ${asin}`);
+  }
+  const title = await page.$eval(titleSelector, el => el.textContent?.replace(/\s+/g, ' ').trim() || 'Unknown Product');
+
+  if (!(await findSelector(page, 'subscribe.option'))) {
+    throw new Error(`"${title}" is not available with Subscribe & Save`);
+  }
+  const toggle = await findSelector(page, 'subscribe.optionToggle');
+  if (toggle) {
+    await page.click(toggle);
+  }
+
+  const chosenFrequency = frequency
+    ? await chooseOption(page, 'subscribe.frequency', frequency, 'frequency')
+    : await page.$eval(await requireSelector(page, 'subscribe.frequency', { timeout: 0, context: 'on the product page' }),
+      el => (el as HTMLSelectElement).selectedOptions[0]?.textContent?.replace(/\s+/g, ' ').trim() || '');
+  if (quantity > 1) {
+    await chooseOption(page, 'subscribe.quantity', String(quantity), 'quantity');
+  }
+
+  const priceSelector = await findSelector(page, 'subscribe.price');
+  const price = priceSelector ? await page.$eval(priceSelector, el => el.textContent?.trim() || '') : '';
+  return { asin, title, price: price || undefined, quantity, frequency: chosenFrequency };
+}
+
+/**
+ * Check a confirm call against the previewed offer and use up its token
+ */
+function takePendingSubscription(params: SubscribeParams): PendingSubscription {
+  const profileName = currentProfile().name;
+  const pending = pendingSubscriptions.get(profileName);
+  if (!pending) {
+    throw new Error('No Subscribe & Save preview is pending. Call subscribe_and_save without confirm first.');
+  }
+  if (!params.confirmationToken || !tokensMatch(pending.token, params.confirmationToken)) {
+    throw new Error('Invalid confirmation token');
+  }
+  if (Date.now() > pending.expiresAt) {
+    pendingSubscriptions.delete(profileName);
+    throw new Error('Confirmation token has expired. Preview the subscription again.');
+  }
+  if (params.asin !== pending.offer.asin || (params.quantity || 1) !== pending.offer.quantity) {
+    throw new Error(`The preview was for ${pending.offer.quantity} x ${pending.offer.asin}; preview this subscription first`);
+  }
+  if (params.frequency && !sameFrequency(parseFrequency(params.frequency), parseFrequency(pending.offer.frequency))) {
+    throw new Error(`The preview was for "${pending.offer.frequency}"; preview this frequency first`);
+  }
+  const expected = parseAmount(params.expectedTotal);
+  if (expected === null || !sameAmount(expected, pending.total)) {
+    throw new Error(`Expected total "${params.expectedTotal}" does not match the previewed total "${toMoney(pending.total).display}"`);
+  }
+
+  // Tokens are single-use, whatever happens next
+  pendingSubscriptions.delete(profileName);
+  return pending;
+}
+
+/**
+ * Subscribe to an ASIN from its product page. Without confirm this stops
+ * after reading the Subscribe & Save offer and returns a one-time
+ * confirmation token; confirming requires that token and the quoted total,
+ * and aborts if the offer changed since. Subscribing places the order for
+ * the first delivery.
+ */
+export async function subscribe(params: SubscribeParams): Promise<OperationResult> {
+  try {
+    const page = await getPage();
+
+    if (!params.confirm) {
+      const offer = await openOffer(page, params.asin, params.quantity || 1, params.frequency);
+      const price = parseAmount(offer.price);
+      if (price === null) {
+        return {
+          success: true,
+          message: `Subscribe & Save offer for "${offer.title}": price not shown, ${offer.frequency}. ` +
+            'It can\'t be confirmed without a price.',
+          data: { ...offer, subscribed: false },
+        };
+      }
+
+      const total = price * offer.quantity;
+      const token = newConfirmationToken();
+      const expiresAt = Date.now() + CONFIRMATION_TTL_MS;
+      pendingSubscriptions.set(currentProfile().name, { token, offer, total, expiresAt });
+      const expectedTotal = toMoney(total).display;
+
+      return {
+        success: true,
+        message: `Subscribe & Save offer for "${offer.title}": ${offer.price} x ${offer.quantity}, ${offer.frequency}, first order ${expectedTotal}. ` +
+          'Nothing was subscribed. Review it with the user, then call again with confirm: true, the confirmation token and expectedTotal ' +
+          `within ${Math.round(CONFIRMATION_TTL_MS / 1000)} seconds; that places the first order.`,
+        data: {
+          ...offer,
+          subscribed: false,
+          expectedTotal,
+          confirmationToken: token,
+          expiresAt: new Date(expiresAt).toISOString(),
+        },
+      };
+    }
+
+    const pending = takePendingSubscription(params);
+    const confirmed = pending.offer;
+
+    // Other tools may have used the page since; reload the offer and re-verify
+    const offer = await openOffer(page, confirmed.asin, confirmed.quantity, confirmed.frequency);
+    const price = parseAmount(offer.price);
+    if (price === null || !sameAmount(price * offer.quantity, pending.total) || offer.frequency !== confirmed.frequency) {
+      return {
+        success: false,
+        message: 'Not subscribed: the Subscribe & Save offer changed since the preview. Preview it again to review.',
+        error: `price ${confirmed.price} → ${offer.price || 'not shown'}, frequency ${confirmed.frequency} → ${offer.frequency}`,
+        data: { confirmed, current: offer },
+      };
+    }
+
+    await submitAndCheck(page, 'subscribe.setUp', 'for Subscribe & Save');
+
+    const fields = selectorMap(['subscribe.total', 'subscribe.firstDelivery']);
+    const review = await page.evaluate((fields: Record<string, string[]>) => {
+      const text = (chain: string[]): string => {
+        for (const selector of chain) {
+          const value = document.querySelector(selector)?.textContent?.replace(/\s+/g, ' ').trim();
+          if (value) return value;
+        }
+        return '';
+      };
+      return { total: text(fields['subscribe.total']), firstDelivery: text(fields['subscribe.firstDelivery']) };
+    }, fields);
+
+    // Tax or shipping on the review page can still change what the first order costs
+    const reviewTotal = parseAmount(review.total);
+    if (reviewTotal !== null && !sameAmount(reviewTotal, pending.total)) {
+      return {
+        success: false,
+        message: 'Not subscribed: the first order total on the review page differs from the preview. Preview it again to review.',
+        error: `total ${toMoney(pending.total).display} → ${review.total}`,
+        data: { confirmed, current: { ...offer, total: review.total } },
+      };
+    }
+
+    await submitAndCheck(page, 'subscribe.confirm', 'on the Subscribe & Save review page');
+    await saveAmazonSession(page).catch(() => {});
+
+    // The first delivery is a real order, so it counts against spend caps
+    recordSpend(reviewTotal ?? pending.total);
+
+    const confirmation = await findSelector(page, 'subscribe.confirmation', { timeout: 5000 });
+    if (!confirmation) {
+      throw new Error(`No Subscribe & Save confirmation (stopped at ${page.url()}). Check list_subscriptions before retrying.`);
+    }
+
+    const subscriptions = await openSubscriptionList(page);
+    const subscription = subscriptions.find(s => s.asin === offer.asin);
+
+    return {
+      success: true,
+      message: `Subscribed to "${offer.title}" (${offer.frequency}, quantity ${offer.quantity})` +
+        `${review.firstDelivery ? `; first delivery: ${review.firstDelivery}` : ''}`,
+      data: {
+        ...offer,
+        subscribed: true,
+        total: review.total || undefined,
+        firstDelivery: review.firstDelivery || undefined,
+        subscription,
+      },
+    };
+  } catch (error) {
+    return {
+      success: false,
+      message: 'Failed to subscribe',
+      error: error instanceof Error ? error.message : String(error),
+      code: errorCode(error),
+    };
+  }
+}
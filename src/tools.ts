@@ -0,0 +1,861 @@
+import { Tool, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  searchProducts,
+  getProductDetails,
+  addToCart,
+  getCart,
+  removeFromCart,
+  updateCartQuantity,
+  saveForLater,
+  moveToCart,
+  clearCart,
+  checkLoginStatus,
+} from './amazon';
+import { prepareCheckout, placeOrder } from './checkout';
+import { getOrder, listOrders, trackOrder } from './orders';
+import { buyAgain } from './reorder';
+import { addItemsToCart } from './shopping-list';
+import { listSubscriptions, skipNextDelivery, subscribe, updateSubscription } from './subscriptions';
+import { getPriceHistory, listPriceWatches, watchPrice } from './price-history';
+import { login, submitLoginCode } from './login';
+import { CART_URI, PRICE_WATCHES_URI, SESSION_STATUS_URI, notifyResourceListChanged, notifyResourceUpdated } from './resources';
+import { enforcePolicy, getPolicy } from './policy';
+import { getPage } from './browser';
+import { saveAmazonSession } from './session-manager';
+import { JsonSchema, validateArguments } from './validation';
+import { OperationOptions, runBrowserOperation } from './scheduler';
+import { getActiveProfile, getProfile, listProfiles, setActiveProfile, withProfile } from './profiles';
+import {
+  AddItemsParams,
+  AddToCartParams,
+  BuyAgainParams,
+  ListOrdersParams,
+  OperationResult,
+  SearchParams,
+  SubmitLoginCodeParams,
+  SubscribeParams,
+  UpdateSubscriptionParams,
+  WatchPriceParams,
+} from './types';
+
+export interface ToolDefinition<Args> {
+  name: string;
+  description: string;
+  inputSchema: JsonSchema & { type: 'object' };
+  // Receives arguments already validated, coerced and defaulted against inputSchema
+  handler: (args: Args) => Promise<OperationResult> | OperationResult;
+  // Cross-field rules the schema can't express; returns one message per failure
+  validate?: (args: Args) => string[];
+  // false for tools that never touch the browser, so they skip the operation queue
+  browser?: boolean;
+  // Overrides BROWSER_OPERATION_TIMEOUT_SECONDS for slow flows
+  timeoutMs?: number;
+  // false for tools that manage profiles themselves, so they get no "profile" argument
+  profileArgument?: boolean;
+  // Resources the tool may change; subscribed clients are notified after it runs
+  updatesResources?: string[];
+}
+
+const ASIN_PATTERN = '^[A-Za-z0-9]{10}$';
+const ORDER_ID_PATTERN = '^[A-Z0-9]{3}-\\d{7}-\\d{7}$';
+const DATE_PATTERN = '^\\d{4}-\\d{2}-\\d{2}$';
+
+const SUBSCRIPTION_ID_PROPERTY: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'Subscription ID from list_subscriptions',
+};
+
+// Added to every tool that acts on an account; the active profile is used when omitted
+const PROFILE_PROPERTY: JsonSchema = {
+  type: 'string',
+  minLength: 1,
+  description: 'Profile (account/marketplace) to run against - see list_profiles (default: the active profile)',
+};
+
+function profileSummary(name: string) {
+  const profile = getProfile(name);
+  return {
+    name: profile.name,
+    active: profile.name === getActiveProfile().name,
+    domain: profile.domain,
+    currency: profile.currency,
+    policyFile: profile.policyFile,
+    description: profile.description,
+  };
+}
+
+// Any tool, whatever its arguments: a handler for some Args accepts never
+type AnyToolDefinition = ToolDefinition<never>;
+
+/**
+ * Type a tool's handler and validate by the same arguments. Args must match
+ * inputSchema: callTool only hands over arguments that passed it.
+ */
+function defineTool<Args>(tool: ToolDefinition<Args>): AnyToolDefinition {
+  return tool;
+}
+
+/**
+ * Every tool, defined once. Drives tools/list and tools/call on every
+ * transport (stdio, Streamable HTTP and SSE).
+ */
+export const TOOL_DEFINITIONS: AnyToolDefinition[] = [
+  defineTool({
+    name: 'search_amazon',
+    description: 'Search for products on Amazon with optional filters, sorting and pagination. Results include price (as { amount, currency, display }), rating, review count, Prime and sponsored flags',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          minLength: 1,
+          description: 'Search query for Amazon products',
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 50,
+          description: 'Maximum number of results to return (default: 5, max: 50)',
+          default: 5,
+        },
+        page: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Results page number (default: 1)',
+          default: 1,
+        },
+        sort: {
+          type: 'string',
+          enum: ['relevance', 'price_asc', 'price_desc', 'rating', 'newest'],
+          description: 'Sort order (default: relevance)',
+        },
+        minPrice: {
+          type: 'number',
+          minimum: 0,
+          description: 'Minimum price in the marketplace currency',
+        },
+        maxPrice: {
+          type: 'number',
+          minimum: 0,
+          description: 'Maximum price in the marketplace currency',
+        },
+        primeOnly: {
+          type: 'boolean',
+          description: 'Only return Prime-eligible results',
+        },
+        minRating: {
+          type: 'number',
+          minimum: 0,
+          maximum: 5,
+          description: 'Minimum average star rating (e.g. 4)',
+        },
+        department: {
+          type: 'string',
+          description: 'Amazon department/category search alias (e.g. "electronics", "grocery", "beauty")',
+        },
+      },
+      required: ['query'],
+    },
+    handler: (args: SearchParams) => searchProducts(args),
+  }),
+  defineTool({
+    name: 'get_product',
+    description: 'Get detailed product information for an ASIN: price, availability, seller, Prime, delivery estimate, features, variations, rating and images',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        asin: {
+          type: 'string',
+          pattern: ASIN_PATTERN,
+          description: 'Amazon ASIN (product ID)',
+        },
+      },
+      required: ['asin'],
+    },
+    handler: (args: { asin: string }) => getProductDetails(args.asin),
+  }),
+  defineTool({
+    name: 'add_to_cart',
+    description: 'Add a product to Amazon cart. Succeeds only when the cart quantity actually goes up; the result includes the cart quantity before and after and any interstitials (protection plan offer, quantity limit, out of stock, variation not selected)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: {
+          type: 'string',
+          minLength: 1,
+          description: 'Product name to search and add',
+        },
+        asin: {
+          type: 'string',
+          pattern: ASIN_PATTERN,
+          description: 'Amazon ASIN (product ID) - use this if known',
+        },
+        quantity: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Quantity to add (default: 1)',
+          default: 1,
+        },
+        variation: {
+          type: 'object',
+          additionalProperties: { type: 'string', minLength: 1 },
+          description: 'Options to choose on the product page, by dimension, e.g. {"size": "L", "color": "Blue"}. ' +
+            'The matching child ASIN is added; if the combination does not exist the available options are returned.',
+        },
+      },
+    },
+    validate: (args: AddToCartParams) => (args.query || args.asin ? [] : ['query: either query or asin is required']),
+    handler: (args: AddToCartParams) => addToCart(args),
+    updatesResources: [CART_URI],
+  }),
+  defineTool({
+    name: 'add_items_to_cart',
+    description: 'Add a shopping list to the Amazon cart in one call. Each entry is an ASIN or a search query (first result) with a quantity. Reports per-item added/skipped/failed and verifies the final cart. Use dryRun to only resolve entries to products and prices',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          minItems: 1,
+          maxItems: 25,
+          description: 'Entries to add, each with asin or query',
+          items: {
+            type: 'object',
+            properties: {
+              asin: {
+                type: 'string',
+                pattern: ASIN_PATTERN,
+                description: 'Amazon ASIN (product ID) - use this if known',
+              },
+              query: {
+                type: 'string',
+                minLength: 1,
+                description: 'Product name to search for',
+              },
+              quantity: {
+                type: 'integer',
+                minimum: 1,
+                description: 'Quantity to add (default: 1)',
+                default: 1,
+              },
+            },
+            additionalProperties: false,
+          },
+        },
+        dryRun: {
+          type: 'boolean',
+          description: 'Resolve entries to ASINs and prices without adding anything (default: false)',
+          default: false,
+        },
+      },
+      required: ['items'],
+    },
+    validate: (args: AddItemsParams) => args.items.flatMap((item, i) =>
+      (item.query || item.asin ? [] : [`items[${i}]: either query or asin is required`])),
+    handler: (args: AddItemsParams) => addItemsToCart(args),
+    timeoutMs: 10 * 60 * 1000,
+    updatesResources: [CART_URI],
+  }),
+  defineTool({
+    name: 'view_cart',
+    description: 'View current Amazon cart contents, including items saved for later. Prices are { amount, currency, display }; each item has a line total, and the subtotal is cross-checked against the items',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    handler: () => getCart(),
+  }),
+  defineTool({
+    name: 'remove_from_cart',
+    description: 'Remove an item from the Amazon cart',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        asin: {
+          type: 'string',
+          pattern: ASIN_PATTERN,
+          description: 'ASIN of the cart item to remove',
+        },
+      },
+      required: ['asin'],
+    },
+    handler: (args: { asin: string }) => removeFromCart(args.asin),
+    updatesResources: [CART_URI],
+  }),
+  defineTool({
+    name: 'update_cart_quantity',
+    description: 'Change the quantity of an item in the Amazon cart (0 removes it)',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        asin: {
+          type: 'string',
+          pattern: ASIN_PATTERN,
+          description: 'ASIN of the cart item to update',
+        },
+        quantity: {
+          type: 'integer',
+          minimum: 0,
+          description: 'New quantity for the item',
+        },
+      },
+      required: ['asin', 'quantity'],
+    },
+    handler: (args: { asin: string; quantity: number }) => updateCartQuantity(args.asin, args.quantity),
+    updatesResources: [CART_URI],
+  }),
+  defineTool({
+    name: 'save_for_later',
+    description: 'Move a cart item to the "Saved for later" list',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        asin: {
+          type: 'string',
+          pattern: ASIN_PATTERN,
+          description: 'ASIN of the cart item to save for later',
+        },
+      },
+      required: ['asin'],
+    },
+    handler: (args: { asin: string }) => saveForLater(args.asin),
+    updatesResources: [CART_URI],
+  }),
+  defineTool({
+    name: 'move_to_cart',
+    description: 'Move an item from the "Saved for later" list back into the cart',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        asin: {
+          type: 'string',
+          pattern: ASIN_PATTERN,
+          description: 'ASIN of the saved item to move to the cart',
+        },
+      },
+      required: ['asin'],
+    },
+    handler: (args: { asin: string }) => moveToCart(args.asin),
+    updatesResources: [CART_URI],
+  }),
+  defineTool({
+    name: 'clear_cart',
+    description: 'Remove all items from the Amazon cart (saved for later items are kept)',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    handler: () => clearCart(),
+    updatesResources: [CART_URI],
+  }),
+  defineTool({
+    name: 'prepare_checkout',
+    description: 'Go to the final "Place your order" page and return the order summary (items, shipping address, payment method, delivery option, tax, total) plus a one-time confirmation token. Does NOT place the order. Show the summary to the user and get explicit approval before calling place_order.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    handler: () => prepareCheckout(),
+  }),
+  defineTool({
+    name: 'place_order',
+    description: 'Place the order prepared by prepare_checkout. Requires the confirmation token and the exact total from the summary, must be called before the token expires, and aborts if anything changed on the final page. Only call after the user explicitly approves the order.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        confirmationToken: {
+          type: 'string',
+          minLength: 1,
+          description: 'Token returned by prepare_checkout',
+        },
+        expectedTotal: {
+          type: 'string',
+          minLength: 1,
+          description: 'Order total shown in the prepare_checkout summary (e.g. "$39.47")',
+        },
+      },
+      required: ['confirmationToken', 'expectedTotal'],
+    },
+    handler: (args: { confirmationToken: string; expectedTotal: string }) => placeOrder(args),
+    timeoutMs: 5 * 60 * 1000,
+    updatesResources: [CART_URI],
+  }),
+  defineTool({
+    name: 'list_orders',
+    description: 'List past orders from Your Orders, newest first, with order date, total, items and shipment status. Filter by date range and/or a search term matched against item titles',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        startDate: {
+          type: 'string',
+          pattern: DATE_PATTERN,
+          description: 'Earliest order date, YYYY-MM-DD (default: 3 months before endDate)',
+        },
+        endDate: {
+          type: 'string',
+          pattern: DATE_PATTERN,
+          description: 'Latest order date, YYYY-MM-DD (default: today)',
+        },
+        search: {
+          type: 'string',
+          minLength: 1,
+          description: 'Only orders with an item matching this text (e.g. "coffee filters")',
+        },
+        page: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Results page number (default: 1)',
+          default: 1,
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 50,
+          description: 'Orders per page (default: 10, max: 50)',
+          default: 10,
+        },
+      },
+    },
+    validate: (args: ListOrdersParams) =>
+      (args.startDate && args.endDate && args.startDate > args.endDate ? ['startDate: must not be after endDate'] : []),
+    handler: (args: ListOrdersParams) => listOrders(args),
+  }),
+  defineTool({
+    name: 'get_order',
+    description: 'Get one order\'s details: date, items with prices, shipments, shipping address, payment method and total',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        orderId: {
+          type: 'string',
+          pattern: ORDER_ID_PATTERN,
+          description: 'Order number, e.g. "111-1234567-1234567"',
+        },
+      },
+      required: ['orderId'],
+    },
+    handler: (args: { orderId: string }) => getOrder(args.orderId),
+  }),
+  defineTool({
+    name: 'track_order',
+    description: 'Track an order\'s packages: delivery status, expected or actual delivery, carrier, tracking ID and tracking events',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        orderId: {
+          type: 'string',
+          pattern: ORDER_ID_PATTERN,
+          description: 'Order number, e.g. "111-1234567-1234567"',
+        },
+      },
+      required: ['orderId'],
+    },
+    handler: (args: { orderId: string }) => trackOrder(args.orderId),
+  }),
+  defineTool({
+    name: 'buy_again',
+    description: 'List items you buy repeatedly (from the Buy Again page and order history) with how often and when they were last ordered and at what price. Pass "add" to put chosen items in the cart by ASIN in one call instead of re-searching for them',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        months: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 60,
+          description: 'How many months of order history to count (default: 12)',
+          default: 12,
+        },
+        limit: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 50,
+          description: 'Maximum number of items to list (default: 20)',
+          default: 20,
+        },
+        add: {
+          type: 'array',
+          minItems: 1,
+          maxItems: 25,
+          description: 'Items to add to the cart; when given, nothing is listed',
+          items: {
+            type: 'object',
+            properties: {
+              asin: {
+                type: 'string',
+                pattern: ASIN_PATTERN,
+                description: 'ASIN from the buy_again list',
+              },
+              quantity: {
+                type: 'integer',
+                minimum: 1,
+                description: 'Quantity to add (default: 1)',
+                default: 1,
+              },
+            },
+            required: ['asin'],
+            additionalProperties: false,
+          },
+        },
+      },
+    },
+    handler: (args: BuyAgainParams) => buyAgain(args),
+    timeoutMs: 5 * 60 * 1000,
+    updatesResources: [CART_URI],
+  }),
+  defineTool({
+    name: 'list_subscriptions',
+    description: 'List active Subscribe & Save subscriptions with item, quantity, delivery frequency, next delivery date and price, soonest delivery first',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    handler: () => listSubscriptions(),
+  }),
+  defineTool({
+    name: 'skip_subscription_delivery',
+    description: 'Skip the next delivery of a Subscribe & Save subscription. Returns the new next delivery date',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        subscriptionId: SUBSCRIPTION_ID_PROPERTY,
+      },
+      required: ['subscriptionId'],
+    },
+    handler: (args: { subscriptionId: string }) => skipNextDelivery(args.subscriptionId),
+  }),
+  defineTool({
+    name: 'update_subscription',
+    description: 'Change the delivery frequency and/or quantity of a Subscribe & Save subscription',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        subscriptionId: SUBSCRIPTION_ID_PROPERTY,
+        frequency: {
+          type: 'string',
+          minLength: 1,
+          description: 'New delivery frequency, e.g. "2 weeks" or "3 months"',
+        },
+        quantity: {
+          type: 'integer',
+          minimum: 1,
+          description: 'New quantity per delivery',
+        },
+      },
+      required: ['subscriptionId'],
+    },
+    validate: (args: UpdateSubscriptionParams) =>
+      (args.frequency || args.quantity !== undefined ? [] : ['frequency: either frequency or quantity is required']),
+    handler: (args: UpdateSubscriptionParams) => updateSubscription(args),
+  }),
+  defineTool({
+    name: 'subscribe_and_save',
+    description: 'Subscribe to a product with Subscribe & Save from its product page. Without confirm, returns the offer (price, frequency, first order total) ' +
+      'with a one-time confirmation token and changes nothing; with confirm: true, the token and expectedTotal it subscribes, which places the order for the first delivery. ' +
+      'Aborts if the offer changed since the preview',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        asin: {
+          type: 'string',
+          pattern: ASIN_PATTERN,
+          description: 'Amazon ASIN (product ID)',
+        },
+        quantity: {
+          type: 'integer',
+          minimum: 1,
+          description: 'Quantity per delivery (default: 1)',
+          default: 1,
+        },
+        frequency: {
+          type: 'string',
+          minLength: 1,
+          description: 'Delivery frequency, e.g. "2 weeks" or "3 months" (default: the product page\'s suggestion)',
+        },
+        confirm: {
+          type: 'boolean',
+          description: 'Actually subscribe and place the first order (default: false - preview only)',
+          default: false,
+        },
+        confirmationToken: {
+          type: 'string',
+          minLength: 1,
+          description: 'Token returned by the preview (required with confirm)',
+        },
+        expectedTotal: {
+          type: 'string',
+          minLength: 1,
+          description: 'First order total returned by the preview, e.g. "$28.48" (required with confirm)',
+        },
+      },
+      required: ['asin'],
+    },
+    validate: (args: SubscribeParams) => (args.confirm
+      ? [
+        ...(args.confirmationToken ? [] : ['confirmationToken: required with confirm']),
+        ...(args.expectedTotal ? [] : ['expectedTotal: required with confirm']),
+      ]
+      : []),
+    handler: (args: SubscribeParams) => subscribe(args),
+    timeoutMs: 5 * 60 * 1000,
+  }),
+  defineTool({
+    name: 'watch_price',
+    description: 'Watch a product\'s price and flag it once it reaches a target price and/or drops by a percentage from today\'s price. Watches are re-checked in the background (see list_price_watches); setting a watch again replaces it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        asin: {
+          type: 'string',
+          pattern: ASIN_PATTERN,
+          description: 'Amazon ASIN (product ID)',
+        },
+        targetPrice: {
+          type: 'number',
+          minimum: 0,
+          description: 'Alert at or below this price, in the profile\'s currency',
+        },
+        dropPercent: {
+          type: 'number',
+          minimum: 1,
+          maximum: 99,
+          description: 'Alert when the price falls this many percent below the price when the watch was set',
+        },
+        remove: {
+          type: 'boolean',
+          description: 'Stop watching the product instead (default: false)',
+          default: false,
+        },
+      },
+      required: ['asin'],
+    },
+    validate: (args: WatchPriceParams) =>
+      (args.remove || args.targetPrice !== undefined || args.dropPercent !== undefined
+        ? []
+        : ['targetPrice: either targetPrice or dropPercent is required']),
+    handler: (args: WatchPriceParams) => watchPrice(args),
+    updatesResources: [PRICE_WATCHES_URI],
+  }),
+  defineTool({
+    name: 'list_price_watches',
+    description: 'List price watches with their thresholds, last checked price and whether they have triggered',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    handler: () => listPriceWatches(),
+    browser: false,
+  }),
+  defineTool({
+    name: 'get_price_history',
+    description: 'Price history recorded locally for a product whenever it was seen in search results, on its product page or in the cart, with min, max and median overall and per day',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        asin: {
+          type: 'string',
+          pattern: ASIN_PATTERN,
+          description: 'Amazon ASIN (product ID)',
+        },
+        days: {
+          type: 'integer',
+          minimum: 1,
+          maximum: 3650,
+          description: 'How many days back to look (default: 90)',
+          default: 90,
+        },
+      },
+      required: ['asin'],
+    },
+    handler: (args: { asin: string; days: number }) => getPriceHistory(args.asin, args.days),
+    browser: false,
+  }),
+  defineTool({
+    name: 'get_policy',
+    description: 'View the spending policy (price, quantity, subtotal and spend limits, ASIN allow/deny lists, blocked categories and keywords) and current spend against the daily/weekly caps',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    handler: () => getPolicy(),
+    browser: false,
+  }),
+  defineTool({
+    name: 'list_profiles',
+    description: 'List the configured profiles (Amazon account + marketplace pairs) with their domain and currency, and which one is active',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    handler: () => {
+      const profiles = listProfiles().map(profile => profileSummary(profile.name));
+      return {
+        success: true,
+        message: `${profiles.length} profile(s), active: ${getActiveProfile().name}`,
+        data: profiles,
+      };
+    },
+    browser: false,
+    profileArgument: false,
+  }),
+  defineTool({
+    name: 'switch_profile',
+    description: 'Make a profile the active one, used by every tool call that does not pass a "profile" argument',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          minLength: 1,
+          description: 'Profile name from list_profiles',
+        },
+      },
+      required: ['name'],
+    },
+    handler: (args: { name: string }) => {
+      try {
+        const profile = setActiveProfile(args.name);
+        console.log(`✓ Switched to profile "${profile.name}" (${profile.domain})`);
+        // Recent searches and products are listed per profile
+        notifyResourceListChanged();
+        return {
+          success: true,
+          message: `Active profile is now "${profile.name}" (${profile.domain})`,
+          data: profileSummary(profile.name),
+        };
+      } catch (error) {
+        return {
+          success: false,
+          message: 'Failed to switch profile',
+          error: error instanceof Error ? error.message : String(error),
+        };
+      }
+    },
+    browser: false,
+    profileArgument: false,
+    updatesResources: [CART_URI, SESSION_STATUS_URI],
+  }),
+  defineTool({
+    name: 'check_login',
+    description: 'Check if logged into Amazon',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    handler: () => checkLoginStatus(),
+    updatesResources: [SESSION_STATUS_URI],
+  }),
+  defineTool({
+    name: 'login',
+    description: 'Sign in to Amazon in the background with the profile\'s stored email and password (credentials file, or AMAZON_EMAIL/AMAZON_PASSWORD). ' +
+      'If Amazon asks for a one-time code or an app approval, data.step says which and submit_login_code finishes the sign-in. The session is saved once logged in',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    handler: () => login(),
+    updatesResources: [SESSION_STATUS_URI],
+  }),
+  defineTool({
+    name: 'submit_login_code',
+    description: 'Finish a sign-in started by login: pass the one-time code Amazon sent (SMS, email or authenticator app), or call without a code after approving the sign-in in the Amazon app',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        code: {
+          type: 'string',
+          pattern: '^\\d{4,8}$',
+          description: 'One-time code, digits only (omit for app approvals)',
+        },
+      },
+    },
+    handler: (args: SubmitLoginCodeParams) => submitLoginCode(args),
+    updatesResources: [SESSION_STATUS_URI],
+  }),
+  defineTool({
+    name: 'save_session',
+    description: '(Optional) Manually trigger session save. Sessions are automatically saved periodically, after operations, and on shutdown, so this is typically not needed.',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+    },
+    handler: async () => {
+      const page = await getPage();
+      await saveAmazonSession(page);
+      return {
+        success: true,
+        message: 'Amazon session saved successfully. Your login will persist across server restarts.',
+      };
+    },
+    updatesResources: [SESSION_STATUS_URI],
+  }),
+];
+
+for (const tool of TOOL_DEFINITIONS) {
+  if (tool.profileArgument !== false) {
+    tool.inputSchema.properties = { ...tool.inputSchema.properties, profile: PROFILE_PROPERTY };
+  }
+}
+
+const toolsByName = new Map(TOOL_DEFINITIONS.map(tool => [tool.name, tool]));
+
+/**
+ * Tool listing for tools/list (definitions without their handlers)
+ */
+export const TOOLS: Tool[] = TOOL_DEFINITIONS.map(({ name, description, inputSchema }) => ({
+  name,
+  description,
+  inputSchema: inputSchema as Tool['inputSchema'],
+}));
+
+/**
+ * Run a tool by name. Arguments are validated against the tool's schema
+ * (invalid ones are rejected with an MCP invalid params error listing each
+ * failing field), then the spending policy check and the tool itself run as
+ * one queued browser operation, against the requested or active profile.
+ */
+export async function callTool(
+  name: string,
+  args: Record<string, unknown> = {},
+  options: OperationOptions = {},
+): Promise<OperationResult> {
+  const tool = toolsByName.get(name);
+  if (!tool) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown tool: ${name}`);
+  }
+
+  const { value, errors } = validateArguments(tool.inputSchema, args);
+  const profileName: string = value.profile || getActiveProfile().name;
+  delete value.profile;
+  // Only used once value has passed the tool's own schema, which is what its Args describe
+  const toolArgs = value as never;
+  if (errors.length === 0 && tool.validate) {
+    errors.push(...tool.validate(toolArgs));
+  }
+  if (errors.length === 0 && !listProfiles().some(profile => profile.name === profileName)) {
+    errors.push(`profile: unknown profile "${profileName}" (available: ${listProfiles().map(profile => profile.name).join(', ')})`);
+  }
+  if (errors.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid arguments for ${name}: ${errors.join('; ')}`, { errors });
+  }
+
+  const run = async (): Promise<OperationResult> => {
+    const refused = await enforcePolicy(name, value);
+    if (refused) {
+      return refused;
+    }
+    try {
+      return await tool.handler(toolArgs);
+    } finally {
+      // Even a failed call may have changed the cart part way through
+      tool.updatesResources?.forEach(notifyResourceUpdated);
+    }
+  };
+
+  return withProfile(profileName, () => {
+    if (tool.browser === false) {
+      return run();
+    }
+    return runBrowserOperation(name, run, { timeoutMs: tool.timeoutMs, ...options });
+  });
+}
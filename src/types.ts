@@ -2,27 +2,311 @@ export interface AddToCartParams {
   query?: string;           // Search query
   asin?: string;            // Amazon ASIN
   quantity?: number;        // Quantity to add (default: 1)
+  variation?: Record<string, string>;  // Twister choices by dimension, e.g. { size: 'L', color: 'Blue' }
+}
+
+export type AddToCartInterstitialType =
+  | 'protection_plan'         // Warranty/protection plan upsell
+  | 'side_sheet'              // "Added to cart" side sheet with accessory suggestions
+  | 'variation_not_selected'  // Parent product page with no buyable variation chosen
+  | 'out_of_stock'
+  | 'quantity_limit'
+  | 'alert';                  // Any other message Amazon showed instead of a confirmation
+
+export interface AddToCartInterstitial {
+  type: AddToCartInterstitialType;
+  message: string;
+  handled: boolean;         // Dismissed automatically (e.g. protection plan declined)
+}
+
+export interface AddToCartResult {
+  asin?: string;            // ASIN actually submitted (the child ASIN for variations)
+  title: string;
+  quantity: number;         // Requested
+  added: number;            // Change in the cart's quantity for the ASIN
+  cartQuantityBefore: number;
+  cartQuantityAfter: number;
+  cartItemCount: number;    // Total units in the active cart afterwards
+  interstitials: AddToCartInterstitial[];
+  variation?: Record<string, string>;  // Options selected on the page, by dimension
+  variations?: ProductVariation[];     // Options to choose from, when no variation was selected
+}
+
+export interface ShoppingListEntry {
+  asin?: string;            // Either an ASIN...
+  query?: string;           // ...or a search query (first result is used)
+  quantity?: number;        // Default: 1
+}
+
+export interface AddItemsParams {
+  items: ShoppingListEntry[];
+  dryRun?: boolean;         // Only resolve entries to products and prices
+}
+
+export interface BatchItemResult {
+  index: number;            // Position in the requested list, 0-based
+  query?: string;
+  asin?: string;
+  title?: string;
+  price?: string;
+  quantity: number;
+  status: 'resolved' | 'added' | 'skipped' | 'failed';  // resolved = found but not added (dry run)
+  reason?: string;          // Why the item was skipped or failed
+}
+
+export interface CartVerification {
+  verified: boolean;
+  mismatches: { asin: string; expectedQuantity: number; actualQuantity: number }[];
+}
+
+export interface Money {
+  amount: number;           // In major units, e.g. 14.99
+  currency: string;         // ISO 4217 code, e.g. EUR
+  display: string;          // As shown, e.g. "$14.99" or "14,99 €"
 }
 
 export interface CartItem {
   title: string;
-  price: string;
+  price: Money | null;      // Unit price; null when the page shows none
   quantity: number;
+  lineTotal: Money | null;  // price × quantity
   asin: string;
   imageUrl: string;
 }
 
+export interface CartContents {
+  items: CartItem[];
+  savedForLater: CartItem[];  // "Saved for later" section below the active cart
+  subtotal: Money | null;     // Amazon's subtotal for the active cart
+  computedSubtotal: Money;    // Sum of the active items' line totals
+  subtotalMatches: boolean;   // Whether the two agree (false if any item has no price)
+}
+
+export type SearchSort = 'relevance' | 'price_asc' | 'price_desc' | 'rating' | 'newest';
+
+export interface SearchParams {
+  query: string;            // Search query
+  limit?: number;           // Max results to return (default: 5)
+  page?: number;            // Results page, 1-based
+  sort?: SearchSort;
+  minPrice?: number;        // In the marketplace currency
+  maxPrice?: number;
+  primeOnly?: boolean;
+  minRating?: number;       // Minimum star rating, e.g. 4
+  department?: string;      // Search alias, e.g. "electronics", "grocery"
+}
+
 export interface SearchResult {
   title: string;
   asin: string;
-  price: string;
+  price: Money | null;      // null when the result shows no price
+  listPrice?: Money;        // Strikethrough price when discounted
   rating: string;
+  reviewCount: number;
+  isPrime: boolean;
+  isSponsored: boolean;     // Paid placement ("Sponsored")
   imageUrl: string;
 }
 
+export interface VariationOption {
+  value: string;            // Display label, e.g. "Large" or "Blue"
+  asin?: string;            // Child ASIN for this option, when exposed by the page
+  selected: boolean;
+  available: boolean;
+}
+
+export interface ProductVariation {
+  dimension: string;        // e.g. "size", "color", "style"
+  options: VariationOption[];
+}
+
+export interface ProductDetails {
+  asin: string;
+  title: string;
+  url: string;
+  price: string;
+  listPrice?: string;       // Strikethrough "List Price" / "Typical price"
+  discount?: string;        // e.g. "-20%"
+  availability: string;     // Stock message, e.g. "In Stock" or "Only 3 left in stock"
+  inStock: boolean;
+  seller?: string;
+  fulfilledBy?: string;
+  isPrime: boolean;
+  deliveryEstimate?: string;
+  bulletPoints: string[];
+  categories: string[];     // Breadcrumb trail, e.g. ["Electronics", "Computers & Accessories"]
+  variations: ProductVariation[];
+  rating: string;
+  reviewCount: number;
+  images: string[];
+}
+
+export interface CheckoutItem {
+  title: string;
+  quantity: number;
+  price: string;
+}
+
+export interface CheckoutSummary {
+  items: CheckoutItem[];
+  shippingAddress: string;  // Address label as shown on the order page
+  paymentMethod: string;
+  paymentLast4?: string;
+  deliveryOption: string;
+  itemsSubtotal?: string;
+  shipping?: string;
+  tax: string;
+  total: string;
+}
+
+export interface ListOrdersParams {
+  startDate?: string;       // YYYY-MM-DD, inclusive (default: 3 months before endDate)
+  endDate?: string;         // YYYY-MM-DD, inclusive (default: today)
+  search?: string;          // Matched by Amazon against item titles, like the Your Orders search box
+  page?: number;            // 1-based
+  limit?: number;           // Orders per page (default: 10)
+}
+
+export interface OrderItem {
+  title: string;
+  asin?: string;
+  quantity: number;
+  price?: string;           // Unit price as shown on the order
+  imageUrl?: string;
+}
+
+export interface TrackingEvent {
+  time: string;             // As shown, e.g. "Tuesday, October 21 7:02 AM"
+  message: string;
+  location?: string;
+}
+
+export interface ShipmentStatus {
+  status: string;           // Headline, e.g. "Arriving Tuesday" or "Delivered September 5"
+  detail?: string;          // Secondary line, e.g. "Shipped" or "Out for delivery"
+  delivered: boolean;
+  carrier?: string;
+  trackingId?: string;
+  trackingUrl?: string;
+  asins: string[];          // Items in this shipment
+  events: TrackingEvent[];  // Newest first; only filled in by track_order
+}
+
+export interface Order {
+  orderId: string;
+  orderDate: string;        // As shown, e.g. "October 14, 2025"
+  orderDateIso?: string;    // YYYY-MM-DD, when the date could be parsed
+  total: string;
+  items: OrderItem[];
+  shipments: ShipmentStatus[];
+  shippingAddress?: string; // Only on the order details page
+  paymentMethod?: string;
+  detailsUrl: string;
+}
+
+export interface BuyAgainItem {
+  asin: string;
+  title: string;
+  currentPrice?: string;    // Price on the Buy Again page today
+  lastPrice?: string;       // Unit price on the most recent order
+  lastOrderDate?: string;   // YYYY-MM-DD of the most recent order
+  lastOrderId?: string;
+  timesOrdered: number;     // Orders in the lookback window containing the item
+  totalQuantity: number;    // Units across those orders
+  onBuyAgainPage: boolean;
+  imageUrl?: string;
+}
+
+export interface BuyAgainParams {
+  months?: number;          // Order history lookback (default: 12)
+  limit?: number;           // Items to list (default: 20)
+  add?: ShoppingListEntry[];  // Add these ASINs to the cart instead of listing
+}
+
+export interface Subscription {
+  subscriptionId: string;
+  asin?: string;
+  title: string;
+  quantity: number;
+  frequency: string;        // As shown, e.g. "Every 2 months"
+  nextDelivery?: string;    // As shown, e.g. "Next delivery: November 3, 2026"
+  nextDeliveryIso?: string; // YYYY-MM-DD, when the date could be parsed
+  price?: string;           // Subscribe & Save unit price
+  imageUrl?: string;
+}
+
+export interface UpdateSubscriptionParams {
+  subscriptionId: string;
+  frequency?: string;       // e.g. "2 weeks" or "3 months"
+  quantity?: number;
+}
+
+export interface SubscribeParams {
+  asin: string;
+  quantity?: number;        // Default: 1
+  frequency?: string;       // Default: whatever the product page preselects
+  confirm?: boolean;        // false previews; true subscribes and places the first order
+  confirmationToken?: string;  // From the preview; required with confirm
+  expectedTotal?: string;   // First order total from the preview; required with confirm
+}
+
+export type PriceSource = 'product' | 'search' | 'cart';
+
+export interface PriceObservation {
+  asin: string;
+  price: number;            // In the profile's currency
+  display: string;          // As shown, e.g. "$14.99"
+  title?: string;
+  source: PriceSource;
+  timestamp: string;        // ISO 8601
+}
+
+export interface PriceStats {
+  count: number;
+  min: number;
+  max: number;
+  median: number;
+  latest: number;
+  firstSeen: string;        // ISO 8601
+  lastSeen: string;
+}
+
+export interface PriceWatch {
+  asin: string;
+  title?: string;
+  targetPrice?: number;     // Alert at or below this price
+  dropPercent?: number;     // Alert when the price falls this far below basePrice
+  basePrice?: number;       // Price when the watch was set
+  createdAt: string;
+  lastCheckedAt?: string;
+  lastPrice?: number;
+  triggeredAt?: string;     // Set once the condition is met; cleared by updating the watch
+  triggeredPrice?: number;
+}
+
+export interface WatchPriceParams {
+  asin: string;
+  targetPrice?: number;
+  dropPercent?: number;
+  remove?: boolean;
+}
+
+export type LoginStep = 'code' | 'approval';  // One-time code, or approving the sign-in in the Amazon app
+
+export interface LoginStatus {
+  loggedIn: boolean;
+  step?: LoginStep;         // What submit_login_code is waiting for, when not logged in yet
+  prompt?: string;          // Amazon's instructions, e.g. "Enter the OTP sent to +1 ***-***-0123"
+}
+
+export interface SubmitLoginCodeParams {
+  code?: string;            // Omitted for app approvals
+}
+
 export interface OperationResult {
   success: boolean;
   message: string;
   data?: any;
   error?: string;
+  code?: string;           // Why it failed, when known, e.g. "captcha" or "login_required"
 }
@@ -0,0 +1,174 @@
+/**
+ * Minimal JSON Schema validation for tool arguments. Covers the subset our
+ * tool schemas use, and coerces the simple type mismatches LLM clients tend
+ * to send ("2" for 2, "true" for true).
+ */
+
+export interface JsonSchema {
+  type?: 'object' | 'string' | 'number' | 'integer' | 'boolean' | 'array';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;  // A schema validates every key not in properties
+  items?: JsonSchema;
+  enum?: unknown[];
+  default?: unknown;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minItems?: number;
+  maxItems?: number;
+}
+
+export interface ValidationResult {
+  value: any;
+  errors: string[];  // One entry per failing field, e.g. "quantity: must be an integer"
+}
+
+/**
+ * Convert a value to the schema's primitive type where the intent is unambiguous
+ */
+function coerce(schema: JsonSchema, value: unknown): unknown {
+  if (typeof value === 'string') {
+    const trimmed = value.trim();
+    if ((schema.type === 'number' || schema.type === 'integer') && trimmed !== '' && !isNaN(Number(trimmed))) {
+      return Number(trimmed);
+    }
+    if (schema.type === 'boolean' && /^(true|false)$/i.test(trimmed)) {
+      return trimmed.toLowerCase() === 'true';
+    }
+  }
+  if (schema.type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+    return String(value);
+  }
+  if (schema.type === 'array' && value !== undefined && !Array.isArray(value)) {
+    return [value];
+  }
+  return value;
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function validateValue(schema: JsonSchema, input: unknown, path: string, errors: string[]): unknown {
+  const value = coerce(schema, input);
+  const label = path || 'arguments';
+  const errorCount = errors.length;
+
+  switch (schema.type) {
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        errors.push(`${label}: must be an object, got ${describeType(value)}`);
+        return value;
+      }
+
+      const source = value as Record<string, unknown>;
+      const result: Record<string, unknown> = {};
+      const properties = schema.properties || {};
+
+      for (const [key, propertySchema] of Object.entries(properties)) {
+        const propertyPath = path ? `${path}.${key}` : key;
+        if (source[key] === undefined || source[key] === null) {
+          if (propertySchema.default !== undefined) {
+            result[key] = propertySchema.default;
+          } else if (schema.required?.includes(key)) {
+            errors.push(`${propertyPath}: is required`);
+          }
+          continue;
+        }
+        result[key] = validateValue(propertySchema, source[key], propertyPath, errors);
+      }
+
+      for (const key of Object.keys(source)) {
+        if (key in properties) continue;
+        const propertyPath = path ? `${path}.${key}` : key;
+        if (schema.additionalProperties === false) {
+          errors.push(`${propertyPath}: is not a recognized argument`);
+        } else if (typeof schema.additionalProperties === 'object') {
+          result[key] = validateValue(schema.additionalProperties, source[key], propertyPath, errors);
+        } else {
+          result[key] = source[key];
+        }
+      }
+
+      return result;
+    }
+
+    case 'array': {
+      if (!Array.isArray(value)) {
+        errors.push(`${label}: must be an array, got ${describeType(value)}`);
+        return value;
+      }
+      if (schema.minItems !== undefined && value.length < schema.minItems) {
+        errors.push(`${label}: must have at least ${schema.minItems} item(s)`);
+      }
+      if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+        errors.push(`${label}: must have at most ${schema.maxItems} item(s)`);
+      }
+      return schema.items
+        ? value.map((item, i) => validateValue(schema.items!, item, `${label}[${i}]`, errors))
+        : value;
+    }
+
+    case 'string':
+      if (typeof value !== 'string') {
+        errors.push(`${label}: must be a string, got ${describeType(value)}`);
+        return value;
+      }
+      if (schema.minLength !== undefined && value.length < schema.minLength) {
+        errors.push(schema.minLength === 1 ? `${label}: must not be empty` : `${label}: must be at least ${schema.minLength} characters`);
+      }
+      if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+        errors.push(`${label}: must be at most ${schema.maxLength} characters`);
+      }
+      if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+        errors.push(`${label}: must match ${schema.pattern}`);
+      }
+      break;
+
+    case 'number':
+    case 'integer':
+      if (typeof value !== 'number' || !Number.isFinite(value)) {
+        errors.push(`${label}: must be a number, got ${describeType(value)}`);
+        return value;
+      }
+      if (schema.type === 'integer' && !Number.isInteger(value)) {
+        errors.push(`${label}: must be an integer`);
+      }
+      if (schema.minimum !== undefined && value < schema.minimum) {
+        errors.push(`${label}: must be at least ${schema.minimum}`);
+      }
+      if (schema.maximum !== undefined && value > schema.maximum) {
+        errors.push(`${label}: must be at most ${schema.maximum}`);
+      }
+      break;
+
+    case 'boolean':
+      if (typeof value !== 'boolean') {
+        errors.push(`${label}: must be a boolean, got ${describeType(value)}`);
+        return value;
+      }
+      break;
+  }
+
+  if (errors.length === errorCount && schema.enum && !schema.enum.includes(value)) {
+    errors.push(`${label}: must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+
+  return value;
+}
+
+/**
+ * Validate tool arguments against a tool's input schema, applying defaults
+ * and coercions. The returned value is only safe to use when errors is empty.
+ */
+export function validateArguments(schema: JsonSchema, args: unknown): ValidationResult {
+  const errors: string[] = [];
+  const value = validateValue(schema, args ?? {}, '', errors);
+  return { value, errors };
+}
@@ -0,0 +1,41 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('search parameters', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-mcp-search-'));
+  let amazon: typeof import('../src/amazon');
+  let profiles: typeof import('../src/profiles');
+
+  before(async () => {
+    process.env.USER_DATA_DIR = dir;
+    process.env.PROFILES_FILE = path.join(dir, 'profiles.json');
+    fs.writeFileSync(process.env.PROFILES_FILE, JSON.stringify({
+      profiles: { us: { domain: 'amazon.com' }, jp: { domain: 'amazon.co.jp' } },
+    }));
+    amazon = await import('../src/amazon');
+    profiles = await import('../src/profiles');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('reads star ratings in any marketplace format', () => {
+    assert.equal(amazon.parseRating('4.5 out of 5 stars'), 4.5);
+    assert.equal(amazon.parseRating('4,5 von 5 Sternen'), 4.5);
+    assert.equal(amazon.parseRating('5つ星のうち4.3'), 4.3);
+    assert.equal(amazon.parseRating('5.0 out of 5 stars'), 5);
+    assert.equal(amazon.parseRating('No rating'), null);
+  });
+
+  it('scales the price filter by the currency minor unit', async () => {
+    const priceFilter = (name: string) => profiles.withProfile(name, async () =>
+      new URL(amazon.buildSearchUrl({ query: 'tea', minPrice: 5, maxPrice: 12.5 })).searchParams.get('rh'));
+
+    assert.equal(await priceFilter('us'), 'p_36:500-1250');
+    assert.equal(await priceFilter('jp'), 'p_36:5-13');
+  });
+});
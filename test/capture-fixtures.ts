@@ -0,0 +1,90 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { FIXTURES_DIR } from './fixture-server';
+
+/**
+ * Snapshot live Amazon pages into test/fixtures using the logged-in browser
+ * profile, scrubbing personal data before anything touches disk.
+ *
+ * Usage: npm run capture-fixtures -- <name>=<path> [<name>=<path> ...]
+ *   e.g. npm run capture-fixtures -- search-2025=/s?k=wireless+mouse cart-2025=/gp/cart/view.html
+ */
+
+const PLACEHOLDER_NAME = 'Test';
+
+/**
+ * Remove personal data, scripts and live links from a captured page
+ */
+export function scrubHtml(html: string, domain = 'amazon.com'): string {
+  const domainPattern = domain.replace(/\./g, '\\.');
+
+  return html
+    // Scripts carry customer IDs, CSRF tokens and tracking state; fixtures are static
+    .replace(/<script\b[\s\S]*?<\/script>/gi, '')
+    .replace(/<noscript\b[\s\S]*?<\/noscript>/gi, '')
+    .replace(/<iframe\b[\s\S]*?<\/iframe>/gi, '')
+    .replace(/\s+on[a-z]+="[^"]*"/gi, '')
+    // Account greeting ("Hello, Jane") and delivery address widget
+    .replace(/(Hello,\s*)(?!sign in)[^<\s][^<]*/g, `$1${PLACEHOLDER_NAME}`)
+    .replace(/(<[^>]+id="glow-ingress-line1"[^>]*>)[^<]*/g, `$1Deliver to ${PLACEHOLDER_NAME}`)
+    .replace(/(<[^>]+id="glow-ingress-line2"[^>]*>)[^<]*/g, '$1Anytown 12345')
+    // Emails, order numbers and phone numbers anywhere in the page
+    .replace(/[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}/gi, 'test@example.com')
+    .replace(/\b\d{3}-\d{7}-\d{7}\b/g, '000-0000000-0000000')
+    .replace(/\+?\d[\d ().-]{8,}\d(?=\s*<)/g, '000-000-0000')
+    // Session and anti-forgery tokens in hidden form fields
+    .replace(
+      /(<input[^>]+name="(?:session-id|csrf|anti-csrftoken-a2z|token|appActionToken|workflowState|[^"]*[Tt]oken)"[^>]*value=")[^"]*/g,
+      '$1REDACTED',
+    )
+    // Keep navigation on the fixture server instead of the live site
+    .replace(new RegExp(`https?://(?:www\\.)?${domainPattern}(?=/|")`, 'g'), '');
+}
+
+async function capture(targets: { name: string; pagePath: string }[]): Promise<void> {
+  // Loaded lazily so scrubHtml can be imported without pulling in Puppeteer
+  const { getPage, closeBrowser } = await import('../src/browser');
+  const { baseUrl } = await import('../src/amazon');
+  const { currentProfile } = await import('../src/profiles');
+  const domain = currentProfile().domain;
+
+  try {
+    const page = await getPage();
+
+    for (const { name, pagePath } of targets) {
+      const url = `${baseUrl()}${pagePath.startsWith('/') ? '' : '/'}${pagePath}`;
+      console.log(`Capturing ${url} ...`);
+      await page.goto(url, { waitUntil: 'networkidle2' });
+
+      const html = scrubHtml(await page.content(), domain);
+      const file = path.join(FIXTURES_DIR, `${name}.html`);
+      fs.writeFileSync(file, html);
+      console.log(`✓ Saved ${path.relative(process.cwd(), file)} (${html.length} bytes)`);
+    }
+
+    console.log('\n⚠️  Review captured fixtures for personal data before committing them.');
+  } finally {
+    await closeBrowser();
+  }
+}
+
+if (require.main === module) {
+  dotenv.config();
+
+  const targets = process.argv.slice(2).map(arg => {
+    const [name, pagePath] = arg.split('=');
+    return { name, pagePath };
+  });
+
+  if (targets.length === 0 || targets.some(t => !t.name || !t.pagePath || !/^[\w-]+$/.test(t.name))) {
+    console.error('Usage: npm run capture-fixtures -- <name>=<path> [<name>=<path> ...]');
+    console.error('  e.g. npm run capture-fixtures -- search-2025=/s?k=wireless+mouse');
+    process.exit(1);
+  }
+
+  capture(targets).catch(error => {
+    console.error('Capture failed:', error);
+    process.exit(1);
+  });
+}
@@ -0,0 +1,380 @@
+import http from 'http';
+import fs from 'fs';
+import path from 'path';
+import { AddressInfo } from 'net';
+
+/**
+ * Tiny HTTP stand-in for Amazon that serves the captured pages under
+ * test/fixtures. Point AMAZON_BASE_URL at it to run the real Puppeteer
+ * scraping code without network access.
+ *
+ * Add-to-cart posts are remembered: ASINs already in cart.html get their
+ * quantity raised and others show up as extra line items. state.addToCart
+ * picks what the post responds with, including an add that doesn't stick.
+ * Subscribe & Save edits, skips and new subscriptions show up in the
+ * subscription list the same way. The sign-in forms accept FIXTURE_PASSWORD
+ * and, with state.twoFactor, FIXTURE_LOGIN_CODE, and then log the state in.
+ */
+
+export const FIXTURES_DIR = path.resolve(__dirname, 'fixtures');
+export const FIXTURE_PASSWORD = 'fixture-password';
+export const FIXTURE_LOGIN_CODE = '123456';
+
+export interface FixtureState {
+  loggedIn: boolean;
+  cart: 'populated' | 'empty';
+  // Serve a blocking page instead of every other page; sign-in and 2FA redirect like Amazon's do
+  blocked: null | 'captcha' | 'sign-in' | 'two-factor' | 'dog-page';
+  checkoutChanged: boolean;  // Serve a checkout page whose totals differ from checkout.html
+  // Response to an add-to-cart post; 'ignored' confirms without adding, 'quantity-limit' refuses
+  addToCart: 'confirmed' | 'ignored' | 'protection-plan' | 'side-sheet' | 'quantity-limit';
+  outOfStock: boolean;       // Product pages say "Currently unavailable" and have no Add to Cart button
+  twoFactor: boolean;        // Sign-in asks for a one-time code after the password
+  subscribePrice: number;    // Subscribe & Save unit price on product and review pages
+}
+
+export interface FixtureServer {
+  url: string;
+  state: FixtureState;
+  requests: string[];        // Paths requested, in order
+  cartAdditions: Map<string, number>;  // Quantity posted to add-to-cart, by ASIN
+  reset(): void;
+  close(): Promise<void>;
+}
+
+const DEFAULT_STATE: FixtureState = {
+  loggedIn: true,
+  cart: 'populated',
+  blocked: null,
+  checkoutChanged: false,
+  addToCart: 'confirmed',
+  outOfStock: false,
+  twoFactor: false,
+  subscribePrice: 14.24,
+};
+
+const ADD_TO_CART_PAGES: Record<FixtureState['addToCart'], string> = {
+  'confirmed': 'add-to-cart-confirmation',
+  'ignored': 'add-to-cart-confirmation',
+  'protection-plan': 'add-to-cart-protection-plan',
+  'side-sheet': 'add-to-cart-side-sheet',
+  'quantity-limit': 'add-to-cart-limit',
+};
+
+function fixturePage(state: FixtureState, method: string, pathname: string): string | null {
+  if (state.blocked === 'captcha') return 'captcha';
+  if (state.blocked === 'dog-page') return 'dog-page';
+
+  if (pathname === '/') return state.loggedIn ? 'home' : 'home-signed-out';
+  if (pathname === '/s') return 'search';
+  if (/^\/(?:[^/]+\/)?dp\/[A-Z0-9]{10}/.test(pathname)) return 'product';
+  if (pathname === '/gp/cart/view.html') return state.cart === 'empty' ? 'cart-empty' : 'cart';
+  if (pathname === '/cart/add-to-cart' && method === 'POST') return ADD_TO_CART_PAGES[state.addToCart];
+  if (pathname === '/checkout/entry/cart' && method === 'POST') {
+    return state.checkoutChanged ? 'checkout-changed' : 'checkout';
+  }
+  if (pathname === '/checkout/place-order' && method === 'POST') return 'order-confirmation';
+  if (pathname === '/gp/css/order-history') return 'order-history';
+  if (pathname === '/gp/your-account/order-details') return 'order-details';
+  if (pathname === '/progress-tracker/package') return 'tracking';
+  if (pathname === '/gp/buyagain') return 'buy-again';
+  if (pathname === '/auto-deliveries/subscriptionList') return 'subscriptions';
+  if (pathname === '/auto-deliveries/subscription/manage') return 'subscription-manage';
+  if (/^\/auto-deliveries\/subscription\/(update|skip)$/.test(pathname) && method === 'POST') return 'subscriptions';
+  if (pathname === '/auto-deliveries/subscribe' && method === 'POST') return 'subscribe-review';
+  if (pathname === '/auto-deliveries/subscribe/confirm' && method === 'POST') return 'subscribe-confirmation';
+  if (pathname.startsWith('/ap/signin')) return 'signin';
+  if (pathname.startsWith('/ap/mfa')) return 'two-factor';
+  if (pathname.startsWith('/errors/validateCaptcha')) return 'captcha';
+
+  return null;
+}
+
+// The product page's twister: B0TEST0010 is the parent, and each child page
+// shows its own color and size selected. There is no Red Compact.
+const PARENT_ASIN = 'B0TEST0010';
+const VARIATION_CHILDREN = [
+  { asin: 'B0TEST0001', color: 'Grey', size: 'Standard', available: true },
+  { asin: 'B0TEST0011', color: 'Blue', size: 'Standard', available: true },
+  { asin: 'B0TEST0012', color: 'Red', size: 'Standard', available: false },
+  { asin: 'B0TEST0021', color: 'Grey', size: 'Compact', available: true },
+  { asin: 'B0TEST0031', color: 'Blue', size: 'Compact', available: true },
+];
+const COLORS = ['Grey', 'Blue', 'Red'];
+const SIZES = ['Standard', 'Compact'];
+
+/**
+ * Twister markup for a parent or child ASIN. Options link to the child with
+ * that value and the current page's other value, or any child with that value
+ * (shown unavailable) when the combination doesn't exist.
+ */
+function renderTwister(asin: string): string | null {
+  const current = VARIATION_CHILDREN.find(child => child.asin === asin);
+  if (!current && asin !== PARENT_ASIN) return null;
+
+  const childFor = (color?: string, size?: string) => VARIATION_CHILDREN.find(child =>
+    (!color || child.color === color) && (!size || child.size === size));
+
+  const colors = COLORS.map(color => {
+    const child = childFor(color, current?.size);
+    const target = child || childFor(color)!;
+    const state = current?.color === color ? 'swatchSelect' : child?.available ? 'swatchAvailable' : 'swatchUnavailable';
+    return `<li data-defaultasin="${target.asin}" class="${state}" title="Click to select ${color}"><img alt="${color}" src="/images/${color.toLowerCase()}.jpg"></li>`;
+  });
+
+  const sizes = SIZES.map((size, i) => {
+    const child = childFor(current?.color, size);
+    const target = child || childFor(undefined, size)!;
+    const attributes = [
+      current?.size === size ? ' selected' : '',
+      child?.available ? '' : ' class="dropdownUnavailable"',
+    ].join('');
+    return `<option value="${i},${target.asin}"${attributes}>${size}</option>`;
+  });
+
+  return `<div id="twister">
+        <div id="variation_color_name">
+          <ul>
+            ${colors.join('\n            ')}
+          </ul>
+        </div>
+        <div id="variation_size_name">
+          <select name="dropdown_selected_size_name">
+            <option value="-1"${current ? '' : ' selected'}>Select</option>
+            ${sizes.join('\n            ')}
+          </select>
+        </div>
+      </div>`;
+}
+
+interface SubscriptionEdit {
+  frequency?: string;        // Form value, e.g. "3_MONTH"
+  quantity?: string;
+  skips: number;
+}
+
+function frequencyLabel(value: string): string {
+  const [count, unit] = value.split('_');
+  return `Every ${count} ${unit.toLowerCase()}${count === '1' ? '' : 's'}`;
+}
+
+/**
+ * Apply edits and skips to the subscription cards, and add cards for new subscriptions
+ */
+function renderSubscriptions(html: string, edits: Map<string, SubscriptionEdit>, subscribed: URLSearchParams[]): string {
+  for (const [id, edit] of edits) {
+    html = html.replace(new RegExp(`<div class="subscription-card" data-subscription-id="${id}"[\\s\\S]*?</div>`), card => {
+      if (edit.frequency) {
+        card = card.replace(/(class="subscription-frequency">)[^<]*/, `$1${frequencyLabel(edit.frequency)}`);
+      }
+      if (edit.quantity) {
+        card = card.replace(/(class="subscription-quantity">)[^<]*/, `$1Qty: ${edit.quantity}`);
+      }
+      // Each skip moves the next delivery on by one interval
+      return card.replace(/(Next delivery: )([^<]*)/, (_, label: string, date: string) => {
+        const [, count, unit] = card.match(/Every (\d+) (week|month)/)!;
+        const next = new Date(date);
+        for (let i = 0; i < edit.skips; i++) {
+          if (unit === 'week') next.setDate(next.getDate() + 7 * Number(count));
+          else next.setMonth(next.getMonth() + Number(count));
+        }
+        return label + next.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' });
+      });
+    });
+  }
+
+  const cards = subscribed.map((form, i) => `
+    <div class="subscription-card" data-subscription-id="SUB-01${String(i).padStart(2, '0')}" data-asin="${form.get('ASIN')}">
+      <a class="subscription-product-title" href="/dp/${form.get('ASIN')}">Fixture product ${form.get('ASIN')}</a>
+      <span class="subscription-quantity">Qty: ${form.get('quantity') || 1}</span>
+      <span class="subscription-frequency">${frequencyLabel(form.get('frequency') || '1_MONTH')}</span>
+      <span class="subscription-next-delivery">Next delivery: October 23, 2026</span>
+    </div>`).join('');
+  return html.replace('<div id="subscription-list">', `<div id="subscription-list">${cards}`);
+}
+
+/**
+ * Answer a sign-in form post: the password page after the email, then the
+ * one-time code page if state.twoFactor is set, then a redirect home once
+ * signed in. Wrong passwords and codes get the same page with an error.
+ */
+function signInResponse(state: FixtureState, pathname: string, form: URLSearchParams): { page: string; error?: string } | { redirect: string } {
+  if (pathname.startsWith('/ap/mfa')) {
+    if (form.get('otpCode') !== FIXTURE_LOGIN_CODE) {
+      return { page: 'two-factor', error: 'The code you entered is not valid. Please try again.' };
+    }
+  } else if (!form.has('password')) {
+    return { page: 'signin-password' };
+  } else if (form.get('password') !== FIXTURE_PASSWORD) {
+    return { page: 'signin-password', error: 'Your password is incorrect' };
+  } else if (state.twoFactor) {
+    return { redirect: '/ap/mfa' };
+  }
+
+  state.loggedIn = true;
+  return { redirect: '/' };
+}
+
+/**
+ * Apply additions from the add-to-cart form: raise the quantity of items
+ * already in the cart and append line items for the rest
+ */
+function renderAddedItems(html: string, cartAdditions: Map<string, number>): string {
+  for (const [asin, quantity] of cartAdditions) {
+    html = html.replace(
+      new RegExp(`(data-asin="${asin}" data-quantity="(\\d+)"[\\s\\S]*?)<select name="quantity">[\\s\\S]*?</select>`),
+      (_, item: string, existing: string) => `${item}<input name="quantityBox" value="${Number(existing) + quantity}">`,
+    );
+  }
+
+  const items = Array.from(cartAdditions)
+    .filter(([asin]) => !html.includes(`data-asin="${asin}"`))
+    .map(([asin, quantity]) => `
+      <div class="sc-list-item" data-asin="${asin}" data-quantity="${quantity}">
+        <img src="/images/${asin}.jpg">
+        <span class="sc-product-title">Fixture product ${asin}</span>
+        <span class="sc-product-price">$10.00</span>
+        <input name="quantityBox" value="${quantity}">
+        <span data-action="delete"><input type="submit" value="Delete"></span>
+      </div>`)
+    .join('');
+  return html.replace('<div data-name="Active Items">', `<div data-name="Active Items">${items}`);
+}
+
+export async function startFixtureServer(port = 0): Promise<FixtureServer> {
+  const state: FixtureState = { ...DEFAULT_STATE };
+  const requests: string[] = [];
+  const cartAdditions = new Map<string, number>();
+  const subscriptionEdits = new Map<string, SubscriptionEdit>();
+  const subscribed: URLSearchParams[] = [];
+
+  const server = http.createServer((req, res) => {
+    const { pathname, searchParams } = new URL(req.url || '/', 'http://localhost');
+    requests.push(pathname);
+
+    let body = '';
+    req.setEncoding('utf-8');
+    req.on('data', chunk => { body += chunk; });
+    req.on('end', () => {
+      const signInPath = state.blocked === 'sign-in' ? '/ap/signin' : state.blocked === 'two-factor' ? '/ap/mfa' : null;
+      if (signInPath && !pathname.startsWith('/ap/')) {
+        res.writeHead(302, { Location: `${signInPath}?openid.return_to=${encodeURIComponent(pathname)}` });
+        res.end();
+        return;
+      }
+
+      let page = fixturePage(state, req.method || 'GET', pathname);
+      let signInError: string | undefined;
+      if (req.method === 'POST' && /^\/ap\/(signin|mfa)/.test(pathname)) {
+        const response = signInResponse(state, pathname, new URLSearchParams(body));
+        if ('redirect' in response) {
+          res.writeHead(302, { Location: response.redirect });
+          res.end();
+          return;
+        }
+        page = response.page;
+        signInError = response.error;
+      }
+      if (!page) {
+        // Images, scripts and anything else the fixtures reference
+        res.writeHead(pathname.startsWith('/images/') ? 204 : 404);
+        res.end();
+        return;
+      }
+
+      let html = fs.readFileSync(path.join(FIXTURES_DIR, `${page}.html`), 'utf-8');
+      if (page === 'product') {
+        // Post the ASIN that was asked for, so adds of other ASINs are told apart
+        const asin = pathname.match(/dp\/([A-Z0-9]{10})/)![1];
+        html = html.replace(/name="ASIN" value="B0TEST0001"/g, `name="ASIN" value="${asin}"`);
+        const twister = renderTwister(asin);
+        if (twister) {
+          html = html.replace(/<div id="twister">[\s\S]*?<\/select>\s*<\/div>\s*<\/div>/, twister);
+        }
+        if (asin === PARENT_ASIN) {
+          // Parent pages can't be bought until a variation is chosen
+          html = html.replace(/<input id="add-to-cart-button"[^>]*>/, '');
+        }
+        html = html.replace('$14.24', `$${state.subscribePrice.toFixed(2)}`);
+        if (state.outOfStock) {
+          html = html
+            .replace(' In Stock ', ' Currently unavailable. ')
+            .replace(/<input id="add-to-cart-button"[^>]*>/, '');
+        }
+      }
+      const recordsAddition = state.addToCart !== 'ignored' && state.addToCart !== 'quantity-limit';
+      if (page === ADD_TO_CART_PAGES[state.addToCart] && recordsAddition) {
+        const form = new URLSearchParams(body);
+        const asin = form.get('ASIN');
+        if (asin) {
+          cartAdditions.set(asin, (cartAdditions.get(asin) || 0) + (Number(form.get('quantity')) || 1));
+        }
+      }
+      if (page === 'cart') {
+        html = renderAddedItems(html, cartAdditions);
+      }
+
+      const form = new URLSearchParams(body);
+      if (page === 'subscriptions' && req.method === 'POST') {
+        const id = form.get('subscriptionId') || '';
+        const edit = subscriptionEdits.get(id) || { skips: 0 };
+        if (pathname.endsWith('/skip')) {
+          edit.skips++;
+        } else {
+          edit.frequency = form.get('frequency') || edit.frequency;
+          edit.quantity = form.get('quantity') || edit.quantity;
+        }
+        subscriptionEdits.set(id, edit);
+      }
+      if (page === 'subscriptions') {
+        html = renderSubscriptions(html, subscriptionEdits, subscribed);
+      }
+      if (page === 'subscription-manage') {
+        html = html.replace(/value="SUB-0001"/g, `value="${searchParams.get('subscriptionId')}"`);
+      }
+      if (page === 'subscribe-review') {
+        // Carry the chosen options through to the confirm post
+        html = html.replace('<input type="hidden" name="ASIN" value="B0TEST0001">', ['ASIN', 'frequency', 'quantity']
+          .map(name => `<input type="hidden" name="${name}" value="${form.get(name) || ''}">`).join(''))
+          .replace('$14.24', `$${(state.subscribePrice * (Number(form.get('quantity')) || 1)).toFixed(2)}`);
+      }
+      if (page === 'subscribe-confirmation') {
+        subscribed.push(form);
+      }
+      if (signInError) {
+        html = html.replace('<form', `<div id="auth-error-message-box"><div class="a-alert-content">${signInError}</div></div>\n    <form`);
+      }
+
+      res.writeHead(page === 'dog-page' ? 503 : 200, { 'Content-Type': 'text/html; charset=utf-8' });
+      res.end(html);
+    });
+  });
+
+  await new Promise<void>(resolve => server.listen(port, '127.0.0.1', resolve));
+  const { port: boundPort } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${boundPort}`,
+    state,
+    requests,
+    cartAdditions,
+    reset() {
+      Object.assign(state, DEFAULT_STATE);
+      requests.length = 0;
+      cartAdditions.clear();
+      subscriptionEdits.clear();
+      subscribed.length = 0;
+    },
+    close() {
+      return new Promise((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+    },
+  };
+}
+
+// Allow `ts-node test/fixture-server.ts` for poking at fixtures in a browser
+if (require.main === module) {
+  startFixtureServer(Number(process.env.FIXTURE_PORT) || 4000).then(server => {
+    console.log(`Fixture server running at ${server.url}`);
+    console.log(`Run the MCP server against it with AMAZON_BASE_URL=${server.url}`);
+  });
+}
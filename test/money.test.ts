@@ -0,0 +1,63 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { multiplyMoney, parseAmount, parseMoney, sameAmount, toMoney } from '../src/money';
+
+describe('parseAmount', () => {
+  it('reads dot-decimal prices', () => {
+    assert.equal(parseAmount('$1,234.56', 'USD'), 1234.56);
+    assert.equal(parseAmount('£9.49', 'GBP'), 9.49);
+    assert.equal(parseAmount('₹1,23,456.00', 'INR'), 123456);
+  });
+
+  it('reads comma-decimal prices', () => {
+    assert.equal(parseAmount('1.234,56 €', 'EUR'), 1234.56);
+    assert.equal(parseAmount('EUR 12,99', 'EUR'), 12.99);
+    assert.equal(parseAmount('1 299,00 kr', 'SEK'), 1299);
+  });
+
+  it('treats a lone separator before three digits as grouping', () => {
+    assert.equal(parseAmount('1.234 €', 'EUR'), 1234);
+    assert.equal(parseAmount('$1,234', 'USD'), 1234);
+  });
+
+  it('never reads a decimal mark for currencies without minor units', () => {
+    assert.equal(parseAmount('￥1,234', 'JPY'), 1234);
+    assert.equal(parseAmount('￥12,34', 'JPY'), 1234);
+  });
+
+  it('does not join separate numbers into one amount', () => {
+    assert.equal(parseAmount('$14.99 2 offers', 'USD'), 14.99);
+    assert.equal(parseAmount('14,99 € 3 Angebote', 'EUR'), 14.99);
+    assert.equal(parseAmount("CHF 1'234.50", 'CHF'), 1234.5);
+  });
+
+  it('prefers the amount next to the currency symbol', () => {
+    assert.equal(parseAmount('2 x $5.00', 'USD'), 5);
+    assert.equal(parseAmount('Pack of 3, 12,50 €', 'EUR'), 12.5);
+    assert.equal(parseAmount('4 pcs ￥1,280', 'JPY'), 1280);
+  });
+
+  it('returns null without an amount', () => {
+    assert.equal(parseAmount('Price not available', 'USD'), null);
+    assert.equal(parseAmount(undefined, 'USD'), null);
+  });
+});
+
+describe('money values', () => {
+  it('keeps the display text alongside the amount', () => {
+    assert.deepEqual(parseMoney(' 14,99 € ', 'EUR'), { amount: 14.99, currency: 'EUR', display: '14,99 €' });
+    assert.equal(parseMoney('', 'EUR'), null);
+  });
+
+  it('computes line totals rounded to the currency', () => {
+    const total = multiplyMoney({ amount: 14.99, currency: 'USD', display: '$14.99' }, 3);
+    assert.deepEqual(total, { amount: 44.97, currency: 'USD', display: '$44.97' });
+    assert.equal(multiplyMoney(null, 3), null);
+  });
+
+  it('formats computed amounts', () => {
+    assert.equal(toMoney(0.1 + 0.2, 'USD').amount, 0.3);
+    assert.ok(sameAmount(0.1 + 0.2, 0.3, 'USD'));
+    assert.ok(!sameAmount(39.47, 39.46, 'USD'));
+  });
+});
@@ -0,0 +1,28 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { historyFilters, parseOrderDate } from '../src/orders';
+
+describe('parseOrderDate', () => {
+  it('reads US and day-first dates, with or without a label', () => {
+    assert.equal(parseOrderDate('October 14, 2025'), '2025-10-14');
+    assert.equal(parseOrderDate('Ordered on October 14, 2025'), '2025-10-14');
+    assert.equal(parseOrderDate('2 September 2025'), '2025-09-02');
+  });
+
+  it('returns undefined for text without a date', () => {
+    assert.equal(parseOrderDate('Order placed'), undefined);
+  });
+});
+
+describe('historyFilters', () => {
+  const now = new Date(2025, 9, 20);
+
+  it('uses the short period filters for recent ranges', () => {
+    assert.deepEqual(historyFilters('2025-10-01', '2025-10-20', now), ['last30']);
+    assert.deepEqual(historyFilters('2025-08-01', '2025-10-20', now), ['months-3']);
+  });
+
+  it('walks years newest first for older ranges', () => {
+    assert.deepEqual(historyFilters('2023-06-01', '2025-02-01', now), ['year-2025', 'year-2024', 'year-2023']);
+  });
+});
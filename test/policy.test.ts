@@ -0,0 +1,59 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+describe('enforcePolicy', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-mcp-policy-'));
+  let policy: typeof import('../src/policy');
+
+  before(async () => {
+    process.env.PROFILES_FILE = path.join(dir, 'profiles.json');
+    process.env.POLICY_FILE = path.join(dir, 'policy.json');
+    process.env.USER_DATA_DIR = dir;
+    fs.writeFileSync(process.env.POLICY_FILE, JSON.stringify({ maxQuantityPerItem: 5, dailySpendCap: 100 }));
+    policy = await import('../src/policy');
+  });
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('sums duplicate list entries against maxQuantityPerItem', async () => {
+    const blocked = await policy.enforcePolicy('add_items_to_cart', {
+      items: [{ asin: 'B0TEST0001', quantity: 3 }, { asin: 'B0TEST0002', quantity: 1 }, { asin: 'B0TEST0001', quantity: 3 }],
+    });
+    assert.equal(blocked?.success, false);
+    assert.equal(blocked?.data.violation.rule, 'maxQuantityPerItem');
+    assert.equal(blocked?.data.violation.actual, 6);
+  });
+
+  it('sums repeated buy_again entries', async () => {
+    const blocked = await policy.enforcePolicy('buy_again', {
+      add: [{ asin: 'B0TEST0001', quantity: 5 }, { asin: 'B0TEST0001' }],
+    });
+    assert.equal(blocked?.data.violation.rule, 'maxQuantityPerItem');
+  });
+
+  it('refuses to place an order without a prepared checkout total', async () => {
+    // The caller's expectedTotal is not trusted for the spend caps
+    const blocked = await policy.enforcePolicy('place_order', { confirmationToken: 'abc', expectedTotal: '$5.00' });
+    assert.equal(blocked?.data.violation.rule, 'dailySpendCap');
+    assert.match(blocked?.error || '', /could not be determined/);
+  });
+
+  it('refuses to confirm a subscription without a quoted total', async () => {
+    const blocked = await policy.enforcePolicy('subscribe_and_save', {
+      asin: 'B0TEST0007', confirm: true, confirmationToken: 'abc', expectedTotal: '$14.24',
+    });
+    assert.equal(blocked?.data.violation.rule, 'dailySpendCap');
+  });
+
+  it('sums queries that differ only in case and spacing', async () => {
+    const blocked = await policy.enforcePolicy('add_items_to_cart', {
+      items: [{ query: 'Paper Towels', quantity: 4 }, { query: ' paper towels', quantity: 2 }],
+    });
+    assert.equal(blocked?.data.violation.rule, 'maxQuantityPerItem');
+  });
+});
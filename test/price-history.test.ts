@@ -0,0 +1,102 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  dailyPriceStats,
+  getPriceHistory,
+  priceStats,
+  readPriceHistory,
+  recordPrices,
+  watchTriggered,
+} from '../src/price-history';
+import { parseMoney } from '../src/money';
+import { PriceObservation, PriceWatch } from '../src/types';
+
+function observation(price: number, timestamp: string): PriceObservation {
+  return { asin: 'B0TEST0001', price, display: `$${price}`, source: 'product', timestamp };
+}
+
+describe('priceStats', () => {
+  it('returns null without observations', () => {
+    assert.equal(priceStats([]), null);
+  });
+
+  it('computes min, max, median and latest', () => {
+    const stats = priceStats([
+      observation(20, '2026-10-01T10:00:00.000Z'),
+      observation(15, '2026-10-02T10:00:00.000Z'),
+      observation(18, '2026-10-03T10:00:00.000Z'),
+      observation(25, '2026-10-04T10:00:00.000Z'),
+    ]);
+    assert.deepEqual(stats, {
+      count: 4,
+      min: 15,
+      max: 25,
+      median: 19,
+      latest: 25,
+      firstSeen: '2026-10-01T10:00:00.000Z',
+      lastSeen: '2026-10-04T10:00:00.000Z',
+    });
+  });
+
+  it('groups observations by day', () => {
+    const daily = dailyPriceStats([
+      observation(20, '2026-10-01T10:00:00.000Z'),
+      observation(16, '2026-10-01T18:00:00.000Z'),
+      observation(15, '2026-10-02T10:00:00.000Z'),
+    ]);
+    assert.deepEqual(daily.map(day => [day.date, day.min, day.max, day.median]), [
+      ['2026-10-01', 16, 20, 18],
+      ['2026-10-02', 15, 15, 15],
+    ]);
+  });
+});
+
+describe('watchTriggered', () => {
+  const base: PriceWatch = { asin: 'B0TEST0001', createdAt: '2026-10-01T10:00:00.000Z', basePrice: 100 };
+
+  it('triggers at or below the target price', () => {
+    assert.equal(watchTriggered({ ...base, targetPrice: 80 }, 80), true);
+    assert.equal(watchTriggered({ ...base, targetPrice: 80 }, 80.01), false);
+  });
+
+  it('triggers on a percentage drop from the base price', () => {
+    assert.equal(watchTriggered({ ...base, dropPercent: 10 }, 90), true);
+    assert.equal(watchTriggered({ ...base, dropPercent: 10 }, 91), false);
+  });
+
+  it('never triggers without a threshold', () => {
+    assert.equal(watchTriggered(base, 1), false);
+  });
+});
+
+describe('price history store', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-mcp-prices-'));
+  process.env.USER_DATA_DIR = dir;
+
+  after(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+  it('records parsed prices and skips unchanged repeats', () => {
+    recordPrices('search', [
+      { asin: 'B0TEST0002', price: parseMoney('$1,299.00', 'USD'), title: 'Laptop' },
+      { asin: 'B0TEST0003', price: parseMoney('Price not available', 'USD') },
+    ]);
+    recordPrices('product', [{ asin: 'B0TEST0002', price: parseMoney('$1,299.00', 'USD'), title: 'Laptop' }]);
+    recordPrices('cart', [{ asin: 'B0TEST0002', price: parseMoney('$1,249.00', 'USD'), title: 'Laptop' }]);
+
+    const history = readPriceHistory('B0TEST0002');
+    assert.deepEqual(history.map(o => [o.price, o.source]), [[1299, 'search'], [1249, 'cart']]);
+    assert.deepEqual(readPriceHistory('B0TEST0003'), []);
+  });
+
+  it('summarizes the recorded history', () => {
+    const result = getPriceHistory('B0TEST0002', 30);
+    assert.equal(result.success, true);
+    assert.equal(result.data.title, 'Laptop');
+    assert.equal(result.data.stats.min, 1249);
+    assert.equal(result.data.stats.median, 1274);
+    assert.equal(result.data.daily.length, 1);
+  });
+});
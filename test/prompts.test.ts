@@ -0,0 +1,33 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { PROMPTS, getPrompt } from '../src/prompts';
+
+function rejectsWith(pattern: RegExp) {
+  return (error: McpError) => {
+    assert.equal(error.code, ErrorCode.InvalidParams);
+    assert.match(error.message, pattern);
+    return true;
+  };
+}
+
+describe('prompts', () => {
+  it('lists every prompt with its arguments', () => {
+    assert.deepEqual(PROMPTS.map(p => p.name), [
+      'restock_from_shopping_list',
+      'compare_products',
+      'find_cheapest_prime_option',
+      'review_cart_before_checkout',
+    ]);
+    assert.deepEqual(PROMPTS[2].arguments?.map(a => [a.name, !!a.required]), [
+      ['query', true],
+      ['minRating', false],
+      ['maxPrice', false],
+    ]);
+  });
+
+  it('rejects unknown prompts and missing arguments', async () => {
+    await assert.rejects(getPrompt('plan_my_week'), rejectsWith(/Unknown prompt: plan_my_week/));
+    await assert.rejects(getPrompt('compare_products', { products: ' ' }), rejectsWith(/Missing arguments for compare_products: products/));
+  });
+});
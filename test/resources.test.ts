@@ -0,0 +1,98 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { ErrorCode, McpError, ResourceUpdatedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createMcpServer } from '../src/mcp';
+import { CART_URI, PRICE_WATCHES_URI, notifyResourceUpdated, rememberSearch, searchUri } from '../src/resources';
+import { SearchResult } from '../src/types';
+
+const RESULT: SearchResult = {
+  title: 'USB-C Cable',
+  asin: 'B0TEST0009',
+  price: { amount: 9.99, currency: 'USD', display: '$9.99' },
+  rating: '4.6 out of 5 stars',
+  reviewCount: 1200,
+  isPrime: true,
+  isSponsored: false,
+  imageUrl: '/images/B0TEST0009.jpg',
+};
+
+// Profiles are loaded on first use, so these still apply
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-mcp-resources-'));
+process.env.USER_DATA_DIR = dataDir;
+process.env.POLICY_FILE = path.join(dataDir, 'policy.json');
+fs.writeFileSync(process.env.POLICY_FILE, JSON.stringify({ blockedKeywords: ['gift card'] }));
+
+describe('MCP resources', () => {
+  const client = new Client({ name: 'test-client', version: '1.0.0' });
+  const updated: string[] = [];
+
+  before(async () => {
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    await client.connect(clientTransport);
+    client.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => {
+      updated.push(notification.params.uri);
+    });
+  });
+
+  after(async () => {
+    await client.close();
+    fs.rmSync(dataDir, { recursive: true, force: true });
+  });
+
+  it('lists the cart, session status, price watches and recent searches', async () => {
+    rememberSearch('usb c cable', [RESULT]);
+    const { resources } = await client.listResources();
+
+    assert.deepEqual(resources.map(r => r.uri), [
+      'amazon://cart', 'amazon://session/status', 'amazon://price-watches', 'amazon://search/usb%20c%20cable',
+    ]);
+    const { resourceTemplates } = await client.listResourceTemplates();
+    assert.deepEqual(resourceTemplates.map(t => t.uriTemplate), ['amazon://search/{query}', 'amazon://product/{asin}']);
+  });
+
+  it('reads the last results of a search', async () => {
+    const { contents } = await client.readResource({ uri: searchUri('usb c cable') });
+    const value = JSON.parse((contents[0] as { text: string }).text);
+
+    assert.equal(value.query, 'usb c cable');
+    assert.deepEqual(value.results, [RESULT]);
+  });
+
+  it('applies the spending policy to searches, cached or not', async () => {
+    rememberSearch('gift card', [RESULT]);
+    await assert.rejects(client.readResource({ uri: searchUri('gift card') }), (error: McpError) => {
+      assert.equal(error.code, ErrorCode.InvalidRequest);
+      assert.match(error.message, /blocked keyword "gift card"/);
+      return true;
+    });
+  });
+
+  it('reads price watches without the browser', async () => {
+    const { contents } = await client.readResource({ uri: PRICE_WATCHES_URI });
+    assert.ok(Array.isArray(JSON.parse((contents[0] as { text: string }).text)));
+  });
+
+  it('rejects unknown resources', async () => {
+    await assert.rejects(client.readResource({ uri: 'amazon://wishlist' }), (error: McpError) => {
+      assert.equal(error.code, ErrorCode.InvalidParams);
+      return true;
+    });
+  });
+
+  it('notifies subscribers of updates', async () => {
+    await client.subscribeResource({ uri: CART_URI });
+    notifyResourceUpdated(CART_URI);
+    notifyResourceUpdated('amazon://session/status');
+    await client.unsubscribeResource({ uri: CART_URI });
+    notifyResourceUpdated(CART_URI);
+
+    await new Promise(resolve => setImmediate(resolve));
+    assert.deepEqual(updated, [CART_URI]);
+  });
+});
@@ -0,0 +1,688 @@
+import { after, before, beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import puppeteer from 'puppeteer';
+import { FIXTURE_LOGIN_CODE, FIXTURE_PASSWORD, FixtureServer, startFixtureServer } from './fixture-server';
+import { scrubHtml } from './capture-fixtures';
+
+/**
+ * Runs the real scraping functions in src/amazon.ts against the offline
+ * fixture server. Needs a Chrome that Puppeteer can launch; without one the
+ * suite fails, unless SKIP_BROWSER_TESTS=1 skips it.
+ */
+
+function browserAvailable(): boolean {
+  try {
+    return fs.existsSync(puppeteer.executablePath());
+  } catch {
+    return false;
+  }
+}
+
+describe('scraping against fixtures', { skip: process.env.SKIP_BROWSER_TESTS === '1' && 'SKIP_BROWSER_TESTS=1' }, () => {
+  let server: FixtureServer;
+  let amazon: typeof import('../src/amazon');
+  let browser: typeof import('../src/browser');
+  let checkout: typeof import('../src/checkout');
+  let orders: typeof import('../src/orders');
+  let reorder: typeof import('../src/reorder');
+  let shoppingList: typeof import('../src/shopping-list');
+  let subscriptions: typeof import('../src/subscriptions');
+  let priceHistory: typeof import('../src/price-history');
+  let prompts: typeof import('../src/prompts');
+  let login: typeof import('../src/login');
+  let policy: typeof import('../src/policy');
+  let profiles: typeof import('../src/profiles');
+  let sessionStore: typeof import('../src/session-store');
+  let userDataDir: string;
+
+  before(async () => {
+    assert.ok(browserAvailable(), 'No Chrome installed for Puppeteer: run `npx puppeteer browsers install chrome`, ' +
+      'or set SKIP_BROWSER_TESTS=1 to skip the browser tests');
+    server = await startFixtureServer();
+    userDataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-mcp-test-'));
+
+    // Must be set before src/amazon.ts is loaded, since it reads them at import time
+    process.env.AMAZON_BASE_URL = server.url;
+    process.env.HEADLESS = 'true';
+    process.env.USER_DATA_DIR = userDataDir;
+    process.env.SELECTORS_FILE = path.join(userDataDir, 'selectors.json');
+    process.env.POLICY_FILE = path.join(userDataDir, 'policy.json');
+    process.env.PROFILES_FILE = path.join(userDataDir, 'profiles.json');
+    fs.writeFileSync(process.env.PROFILES_FILE, JSON.stringify({
+      default: 'default',
+      profiles: { default: {}, uk: { domain: 'amazon.co.uk' } },
+    }));
+    process.env.AMAZON_EMAIL = 'test@example.com';
+    process.env.AMAZON_PASSWORD = FIXTURE_PASSWORD;
+
+    amazon = await import('../src/amazon');
+    browser = await import('../src/browser');
+    checkout = await import('../src/checkout');
+    orders = await import('../src/orders');
+    reorder = await import('../src/reorder');
+    shoppingList = await import('../src/shopping-list');
+    subscriptions = await import('../src/subscriptions');
+    priceHistory = await import('../src/price-history');
+    prompts = await import('../src/prompts');
+    login = await import('../src/login');
+    policy = await import('../src/policy');
+    profiles = await import('../src/profiles');
+    sessionStore = await import('../src/session-store');
+  });
+
+  after(async () => {
+    await browser?.closeBrowser();
+    await server?.close();
+    if (userDataDir) {
+      fs.rmSync(userDataDir, { recursive: true, force: true });
+    }
+  });
+
+  beforeEach(() => {
+    server.reset();
+  });
+
+  it('searchProducts returns the first five results', async () => {
+    const result = await amazon.searchProducts({ query: 'wireless mouse' });
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.data.length, 5);
+    assert.deepEqual(result.data[0], {
+      title: 'Logitech M185 Wireless Mouse, 2.4GHz with USB Mini Receiver',
+      price: { amount: 14.99, currency: 'USD', display: '$14.99' },
+      listPrice: undefined,
+      rating: '4.5 out of 5 stars',
+      reviewCount: 48213,
+      isPrime: true,
+      isSponsored: false,
+      imageUrl: '/images/B0TEST0001.jpg',
+      asin: 'B0TEST0001',
+    });
+    assert.equal(result.data[1].isSponsored, true);
+    assert.deepEqual(result.data[1].listPrice, { amount: 29.99, currency: 'USD', display: '$29.99' });
+    assert.ok(server.requests.includes('/s'));
+  });
+
+  it('searchProducts applies limit, Prime and rating filters', async () => {
+    const result = await amazon.searchProducts({ query: 'wireless mouse', limit: 10, primeOnly: true, minRating: 4.5 });
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.data.map((r: any) => r.asin), ['B0TEST0001', 'B0TEST0003']);
+  });
+
+  it('buildSearchUrl encodes filters in the query string', () => {
+    const url = new URL(amazon.buildSearchUrl({
+      query: 'usb cable',
+      page: 2,
+      sort: 'price_asc',
+      minPrice: 5,
+      maxPrice: 12.5,
+      department: 'electronics',
+    }));
+
+    assert.equal(url.pathname, '/s');
+    assert.equal(url.searchParams.get('k'), 'usb cable');
+    assert.equal(url.searchParams.get('page'), '2');
+    assert.equal(url.searchParams.get('s'), 'price-asc-rank');
+    assert.equal(url.searchParams.get('rh'), 'p_36:500-1250');
+    assert.equal(url.searchParams.get('i'), 'electronics');
+  });
+
+  it('getProductDetails parses the product page', async () => {
+    const result = await amazon.getProductDetails('B0TEST0001');
+
+    assert.equal(result.success, true, result.error);
+    const product = result.data;
+    assert.equal(product.title, 'Logitech M185 Wireless Mouse, 2.4GHz with USB Mini Receiver');
+    assert.equal(product.price, '$14.99');
+    assert.equal(product.listPrice, '$19.99');
+    assert.equal(product.discount, '-25%');
+    assert.equal(product.availability, 'In Stock');
+    assert.equal(product.inStock, true);
+    assert.equal(product.seller, 'Amazon.com');
+    assert.equal(product.fulfilledBy, 'Amazon');
+    assert.equal(product.isPrime, true);
+    assert.equal(product.reviewCount, 48213);
+    assert.equal(product.bulletPoints.length, 3);
+    assert.deepEqual(product.categories, ['Electronics', 'Computers & Accessories', 'Mice']);
+    assert.deepEqual(product.images, [
+      '/images/B0TEST0001._AC_SL1500_.jpg',
+      '/images/B0TEST0001.jpg',
+      '/images/B0TEST0001-side.jpg',
+    ]);
+
+    const color = product.variations.find((v: any) => v.dimension === 'color');
+    assert.deepEqual(color.options.map((o: any) => [o.value, o.asin, o.selected, o.available]), [
+      ['Grey', 'B0TEST0001', true, true],
+      ['Blue', 'B0TEST0011', false, true],
+      ['Red', 'B0TEST0012', false, false],
+    ]);
+    const size = product.variations.find((v: any) => v.dimension === 'size');
+    assert.deepEqual(size.options.map((o: any) => o.asin), ['B0TEST0001', 'B0TEST0021']);
+  });
+
+  it('addToCart by ASIN verifies the add against the cart', async () => {
+    const result = await amazon.addToCart({ asin: 'B0TEST0001', quantity: 2 });
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.data.title, 'Logitech M185 Wireless Mouse, 2.4GHz with USB Mini Receiver');
+    assert.deepEqual(
+      [result.data.asin, result.data.added, result.data.cartQuantityBefore, result.data.cartQuantityAfter, result.data.cartItemCount],
+      ['B0TEST0001', 2, 2, 4, 5],
+    );
+    assert.deepEqual(result.data.interstitials, []);
+    assert.ok(server.requests.includes('/cart/add-to-cart'));
+  });
+
+  it('addToCart by query opens the first search result', async () => {
+    const result = await amazon.addToCart({ query: 'wireless mouse' });
+
+    assert.equal(result.success, true, result.error);
+    assert.ok(server.requests.includes('/dp/B0TEST0001'));
+  });
+
+  it('addToCart fails when the cart does not change', async () => {
+    server.state.addToCart = 'ignored';
+    const result = await amazon.addToCart({ asin: 'B0TEST0005' });
+
+    assert.equal(result.success, false);
+    assert.equal(result.data.added, 0);
+    assert.match(result.error || '', /went from 0 to 0/);
+  });
+
+  it('addToCart declines a protection plan and notes side sheets', async () => {
+    server.state.addToCart = 'protection-plan';
+    const withPlan = await amazon.addToCart({ asin: 'B0TEST0005' });
+
+    assert.equal(withPlan.success, true, withPlan.error);
+    assert.deepEqual(withPlan.data.interstitials, [
+      { type: 'protection_plan', message: 'Declined the protection plan offer', handled: true },
+    ]);
+
+    server.state.addToCart = 'side-sheet';
+    const withSheet = await amazon.addToCart({ asin: 'B0TEST0006' });
+
+    assert.equal(withSheet.success, true, withSheet.error);
+    assert.deepEqual(withSheet.data.interstitials, [{ type: 'side_sheet', message: 'Added to Cart', handled: true }]);
+  });
+
+  it('addToCart reports quantity limits', async () => {
+    const overDropdown = await amazon.addToCart({ asin: 'B0TEST0005', quantity: 6 });
+    assert.equal(overDropdown.success, false);
+    assert.equal(overDropdown.data.interstitials[0].type, 'quantity_limit');
+    assert.ok(!server.requests.includes('/cart/add-to-cart'));
+
+    server.state.addToCart = 'quantity-limit';
+    const refused = await amazon.addToCart({ asin: 'B0TEST0005', quantity: 2 });
+    assert.equal(refused.success, false);
+    assert.match(refused.error || '', /^quantity_limit: This seller has a limit of 1 per customer/);
+  });
+
+  it('addToCart reports out of stock products without clicking', async () => {
+    server.state.outOfStock = true;
+    const result = await amazon.addToCart({ asin: 'B0TEST0005' });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.data.interstitials, [{ type: 'out_of_stock', message: 'Currently unavailable.', handled: false }]);
+    assert.ok(!server.requests.includes('/cart/add-to-cart'));
+  });
+
+  it('addToCart selects a variation and adds the child ASIN', async () => {
+    const result = await amazon.addToCart({ asin: 'B0TEST0010', variation: { color: 'blue', size: 'Comp' } });
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.data.asin, 'B0TEST0031');
+    assert.deepEqual(result.data.variation, { color: 'Blue', size: 'Compact' });
+    assert.equal(result.data.added, 1);
+    assert.ok(server.requests.includes('/dp/B0TEST0011'));
+  });
+
+  it('addToCart lists the options for a parent ASIN without a variation', async () => {
+    const result = await amazon.addToCart({ asin: 'B0TEST0010' });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.data.interstitials.map((i: any) => i.type), ['variation_not_selected']);
+    assert.deepEqual(result.data.variations.map((v: any) => v.dimension), ['color', 'size']);
+  });
+
+  it('addToCart reports combinations that do not exist', async () => {
+    const unavailable = await amazon.addToCart({ asin: 'B0TEST0010', variation: { size: 'Compact', color: 'Red' } });
+    assert.equal(unavailable.success, false);
+    assert.equal(unavailable.error, 'color "Red" is not available with size Compact. Available: Grey, Blue, Red (unavailable)');
+    assert.equal(unavailable.data.variations.length, 2);
+
+    const unknown = await amazon.addToCart({ asin: 'B0TEST0010', variation: { size: 'XL' } });
+    assert.equal(unknown.error, 'No size "XL". Available: Standard, Compact');
+    assert.ok(!server.requests.includes('/cart/add-to-cart'));
+  });
+
+  it('addItemsToCart dry run resolves entries without adding', async () => {
+    const result = await shoppingList.addItemsToCart({
+      items: [{ query: 'wireless mouse', quantity: 2 }, { asin: 'B0TEST0005' }, { asin: 'B0TEST0001' }],
+      dryRun: true,
+    });
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.data.items.map((r: any) => [r.asin, r.quantity, r.status]), [
+      ['B0TEST0001', 3, 'resolved'],
+      ['B0TEST0005', 1, 'resolved'],
+      ['B0TEST0001', 1, 'skipped'],
+    ]);
+    assert.equal(result.data.estimatedSubtotal, 59.96);
+    assert.ok(!server.requests.includes('/cart/add-to-cart'));
+  });
+
+  it('addItemsToCart adds each entry and verifies the cart', async () => {
+    const result = await shoppingList.addItemsToCart({ items: [{ asin: 'B0TEST0005', quantity: 2 }, { asin: 'B0TEST0006' }] });
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.data.items.map((r: any) => r.status), ['added', 'added']);
+    assert.deepEqual(result.data.verification, { verified: true, mismatches: [] });
+  });
+
+  it('addItemsToCart reports items the cart did not take', async () => {
+    // The product page quantity dropdown stops at 5
+    const result = await shoppingList.addItemsToCart({ items: [{ asin: 'B0TEST0001', quantity: 6 }, { asin: 'B0TEST0005' }] });
+
+    assert.equal(result.success, false);
+    assert.deepEqual(result.data.items.map((r: any) => r.status), ['failed', 'added']);
+    assert.match(result.data.items[0].reason, /^quantity_limit/);
+    assert.deepEqual(result.data.verification, { verified: true, mismatches: [] });
+  });
+
+  it('getCart parses active and saved-for-later items', async () => {
+    const result = await amazon.getCart();
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.data.subtotal, { amount: 39.47, currency: 'USD', display: '$39.47' });
+    assert.deepEqual(result.data.items.map((i: any) => [i.asin, i.quantity, i.price.amount, i.lineTotal.display]), [
+      ['B0TEST0001', 2, 14.99, '$29.98'],
+      ['B0TEST0004', 1, 9.49, '$9.49'],
+    ]);
+    assert.equal(result.data.computedSubtotal.amount, 39.47);
+    assert.equal(result.data.subtotalMatches, true);
+    assert.deepEqual(result.data.savedForLater.map((i: any) => i.asin), ['B0TEST0003']);
+  });
+
+  it('getCart reports an empty cart', async () => {
+    server.state.cart = 'empty';
+    const result = await amazon.getCart();
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.message, 'Cart is empty');
+    assert.deepEqual(result.data.items, []);
+    assert.equal(result.data.subtotal.amount, 0);
+  });
+
+  it('prepareCheckout returns the order summary and placeOrder confirms it', async () => {
+    const prepared = await checkout.prepareCheckout();
+
+    assert.equal(prepared.success, true, prepared.error);
+    const { summary, confirmationToken } = prepared.data;
+    assert.equal(summary.total, '$42.42');
+    assert.equal(summary.tax, '$2.95');
+    assert.equal(summary.paymentLast4, '4242');
+    assert.equal(summary.shippingAddress, 'Test, 123 Main St, Anytown, WA 98000');
+    assert.equal(summary.deliveryOption, 'Tuesday, Oct. 21 FREE Prime Delivery');
+    assert.deepEqual(summary.items.map((i: any) => [i.quantity, i.price]), [[2, '$14.99'], [1, '$9.49']]);
+    assert.ok(!server.requests.includes('/checkout/place-order'));
+
+    const wrongTotal = await checkout.placeOrder({ confirmationToken, expectedTotal: '$40.00' });
+    assert.equal(wrongTotal.success, false);
+
+    const placed = await checkout.placeOrder({ confirmationToken, expectedTotal: '$42.42' });
+    assert.equal(placed.success, true, placed.error);
+    assert.equal(placed.data.orderId, '111-0000000-0000001');
+
+    const reused = await checkout.placeOrder({ confirmationToken, expectedTotal: '$42.42' });
+    assert.equal(reused.success, false);
+  });
+
+  it('placeOrder aborts when the final page drifts from the summary', async () => {
+    const prepared = await checkout.prepareCheckout();
+    assert.equal(prepared.success, true, prepared.error);
+
+    server.state.checkoutChanged = true;
+    const result = await checkout.placeOrder({
+      confirmationToken: prepared.data.confirmationToken,
+      expectedTotal: prepared.data.summary.total,
+    });
+
+    assert.equal(result.success, false);
+    assert.match(result.error || '', /total changed/);
+    assert.ok(!server.requests.includes('/checkout/place-order'));
+  });
+
+  it('listOrders parses order cards within the date range', async () => {
+    const result = await orders.listOrders({ startDate: '2025-01-01', endDate: '2025-12-31' });
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.data.hasMore, false);
+    assert.deepEqual(result.data.orders.map((o: any) => [o.orderId, o.orderDateIso, o.total]), [
+      ['111-0000000-0000002', '2025-10-14', '$39.47'],
+      ['111-0000000-0000003', '2025-09-02', '$79.00'],
+    ]);
+
+    const [latest] = result.data.orders;
+    assert.deepEqual(latest.items.map((i: any) => [i.asin, i.quantity, i.price]), [
+      ['B0TEST0001', 2, '$14.99'],
+      ['B0TEST0004', 1, '$9.49'],
+    ]);
+    assert.equal(latest.shipments[0].status, 'Arriving Tuesday');
+    assert.equal(latest.shipments[0].delivered, false);
+    assert.deepEqual(latest.shipments[0].asins, ['B0TEST0001', 'B0TEST0004']);
+    assert.equal(result.data.orders[1].shipments[0].delivered, true);
+  });
+
+  it('listOrders pages through the matching orders', async () => {
+    const result = await orders.listOrders({ startDate: '2024-01-01', endDate: '2025-12-31', limit: 2, page: 2 });
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.data.orders.map((o: any) => o.orderId), ['111-0000000-0000004']);
+    assert.equal(result.data.hasMore, false);
+  });
+
+  it('getOrder reads the order details page', async () => {
+    const result = await orders.getOrder('111-0000000-0000002');
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.data.orderDate, 'October 14, 2025');
+    assert.equal(result.data.total, '$39.47');
+    assert.equal(result.data.shippingAddress, 'Test, 123 Main St, Anytown, WA 98000');
+    assert.equal(result.data.paymentMethod, 'Visa ending in 4242');
+    assert.equal(result.data.items.length, 2);
+  });
+
+  it('trackOrder follows each shipment to its tracking page', async () => {
+    const result = await orders.trackOrder('111-0000000-0000002');
+
+    assert.equal(result.success, true, result.error);
+    const [shipment] = result.data.shipments;
+    assert.equal(shipment.status, 'Arriving Tuesday');
+    assert.equal(shipment.detail, 'Out for delivery');
+    assert.equal(shipment.carrier, 'UPS');
+    assert.equal(shipment.trackingId, '1Z0000000000000000');
+    assert.deepEqual(shipment.events.map((e: any) => e.message), ['Out for delivery', 'Arrived at carrier facility', 'Shipped']);
+    assert.ok(server.requests.includes('/progress-tracker/package'));
+  });
+
+  it('buyAgain merges the Buy Again page with order history', async () => {
+    const result = await reorder.buyAgain({ months: 60 });
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.data.truncated, false);
+    assert.deepEqual(result.data.items.map((i: any) => [i.asin, i.timesOrdered, i.lastOrderDate, i.onBuyAgainPage]), [
+      ['B0TEST0001', 1, '2025-10-14', true],
+      ['B0TEST0004', 1, '2025-10-14', false],
+      ['B0TEST0003', 1, '2025-09-02', false],
+      ['B0TEST0005', 1, '2024-12-20', true],
+      ['B0TEST0006', 0, undefined, true],
+    ]);
+    const batteries = result.data.items.find((i: any) => i.asin === 'B0TEST0005');
+    assert.equal(batteries.lastPrice, '$24.99');
+    assert.equal(batteries.currentPrice, '$22.49');
+  });
+
+  it('buyAgain adds the chosen ASINs to the cart', async () => {
+    const result = await reorder.buyAgain({ add: [{ asin: 'B0TEST0005', quantity: 2 }, { asin: 'B0TEST0006' }] });
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.data.items.map((r: any) => [r.asin, r.quantity, r.status]), [
+      ['B0TEST0005', 2, 'added'],
+      ['B0TEST0006', 1, 'added'],
+    ]);
+    assert.equal(server.requests.filter(p => p === '/cart/add-to-cart').length, 2);
+  });
+
+  it('listSubscriptions reads subscriptions, soonest delivery first', async () => {
+    const result = await subscriptions.listSubscriptions();
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.data.map((s: any) => [s.subscriptionId, s.asin, s.quantity, s.frequency, s.nextDeliveryIso, s.price]), [
+      ['SUB-0002', 'B0TEST0006', 2, 'Every 1 month', '2026-10-28', '$6.45'],
+      ['SUB-0001', 'B0TEST0005', 1, 'Every 2 months', '2026-11-03', '$21.37'],
+    ]);
+  });
+
+  it('skipNextDelivery moves the next delivery on by one interval', async () => {
+    const result = await subscriptions.skipNextDelivery('SUB-0001');
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.data.subscription.nextDeliveryIso, '2027-01-03');
+    assert.ok(server.requests.includes('/auto-deliveries/subscription/skip'));
+  });
+
+  it('updateSubscription changes frequency and quantity and checks the result', async () => {
+    const result = await subscriptions.updateSubscription({ subscriptionId: 'SUB-0002', frequency: '2 weeks', quantity: 3 });
+
+    assert.equal(result.success, true, result.error);
+    assert.equal(result.data.subscription.frequency, 'Every 2 weeks');
+    assert.equal(result.data.subscription.quantity, 3);
+
+    const unknown = await subscriptions.updateSubscription({ subscriptionId: 'SUB-0002', frequency: '7 weeks' });
+    assert.equal(unknown.success, false);
+    assert.match(unknown.error || '', /^No frequency "7 weeks"\. Available: 2 weeks, 1 month/);
+
+    const missing = await subscriptions.skipNextDelivery('SUB-9999');
+    assert.match(missing.error || '', /Subscription SUB-9999 not found/);
+  });
+
+  it('subscribe previews the offer unless confirmed', async () => {
+    const preview = await subscriptions.subscribe({ asin: 'B0TEST0007', frequency: '3 months' });
+
+    assert.equal(preview.success, true, preview.error);
+    assert.deepEqual([preview.data.price, preview.data.frequency, preview.data.subscribed], ['$14.24', 'Every 3 months', false]);
+    assert.ok(!server.requests.includes('/auto-deliveries/subscribe'));
+
+    const unconfirmed = await subscriptions.subscribe({ asin: 'B0TEST0007', frequency: '3 months', quantity: 2, confirm: true });
+    assert.match(unconfirmed.error || '', /No Subscribe & Save preview is pending/);
+
+    const quote = await subscriptions.subscribe({ asin: 'B0TEST0007', frequency: '3 months', quantity: 2 });
+    assert.equal(quote.data.expectedTotal, '$28.48');
+
+    const wrongTotal = await subscriptions.subscribe({
+      asin: 'B0TEST0007', frequency: '3 months', quantity: 2, confirm: true,
+      confirmationToken: quote.data.confirmationToken, expectedTotal: '$14.24',
+    });
+    assert.match(wrongTotal.error || '', /does not match the previewed total "\$28\.48"/);
+
+    const requote = await subscriptions.subscribe({ asin: 'B0TEST0007', frequency: '3 months', quantity: 2 });
+    const confirmed = await subscriptions.subscribe({
+      asin: 'B0TEST0007', frequency: '3 months', quantity: 2, confirm: true,
+      confirmationToken: requote.data.confirmationToken, expectedTotal: requote.data.expectedTotal,
+    });
+
+    assert.equal(confirmed.success, true, confirmed.error);
+    assert.equal(confirmed.data.firstDelivery, 'Arriving October 23, 2026');
+    assert.deepEqual([confirmed.data.subscription.quantity, confirmed.data.subscription.frequency], [2, 'Every 3 months']);
+  });
+
+  it('subscribe aborts when the price changed since the preview', async () => {
+    const preview = await subscriptions.subscribe({ asin: 'B0TEST0007' });
+    server.state.subscribePrice = 15.99;
+
+    const result = await subscriptions.subscribe({
+      asin: 'B0TEST0007', confirm: true,
+      confirmationToken: preview.data.confirmationToken, expectedTotal: preview.data.expectedTotal,
+    });
+
+    assert.equal(result.success, false);
+    assert.match(result.error || '', /\$14\.24 → \$15\.99/);
+    assert.ok(!server.requests.includes('/auto-deliveries/subscribe'));
+  });
+
+  it('watchPrice records the current price and triggers at the target', async () => {
+    const result = await priceHistory.watchPrice({ asin: 'B0TEST0001', targetPrice: 15 });
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual([result.data.basePrice, result.data.triggeredPrice], [14.99, 14.99]);
+    const history = priceHistory.readPriceHistory('B0TEST0001');
+    assert.equal(history[history.length - 1].price, 14.99);
+
+    const untriggered = await priceHistory.watchPrice({ asin: 'B0TEST0001', dropPercent: 10 });
+    assert.equal(untriggered.data.triggeredAt, undefined);
+    assert.equal(await priceHistory.checkPriceWatch('B0TEST0001'), null);
+    assert.equal(priceHistory.listPriceWatches().data[0].lastPrice, 14.99);
+  });
+
+  it('getPrompt embeds the live cart ahead of the instructions', async () => {
+    const result = await prompts.getPrompt('review_cart_before_checkout', { budget: '$50' });
+
+    const [context, instructions] = result.messages;
+    assert.equal(context.content.type, 'resource');
+    const cart = JSON.parse((context.content as any).resource.text);
+    assert.deepEqual(cart.items.map((i: any) => i.asin), ['B0TEST0001', 'B0TEST0004']);
+    assert.match((instructions.content as any).text, /budget of \$50/);
+  });
+
+  it('checkLoginStatus detects signed-in and signed-out pages', async () => {
+    const signedIn = await amazon.checkLoginStatus();
+    assert.equal(signedIn.data.loggedIn, true);
+    assert.equal(signedIn.data.accountText, 'Hello, Test');
+
+    server.state.loggedIn = false;
+    const signedOut = await amazon.checkLoginStatus();
+    assert.equal(signedOut.data.loggedIn, false);
+  });
+
+  it('enforcePolicy counts quantities already in the cart against maxQuantityPerItem', async () => {
+    fs.writeFileSync(process.env.POLICY_FILE!, JSON.stringify({ maxQuantityPerItem: 5 }));
+    try {
+      // The cart already holds 2 of B0TEST0001
+      const blocked = await policy.enforcePolicy('add_to_cart', { asin: 'B0TEST0001', quantity: 4 });
+      assert.equal(blocked?.data.violation.rule, 'maxQuantityPerItem');
+      assert.equal(blocked?.data.violation.actual, 6);
+
+      assert.equal(await policy.enforcePolicy('add_to_cart', { asin: 'B0TEST0001', quantity: 3 }), null);
+    } finally {
+      fs.rmSync(process.env.POLICY_FILE!);
+    }
+  });
+
+  it('login signs in with the stored credentials and saves the session', async () => {
+    server.state.loggedIn = false;
+    const result = await login.login();
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.data, { loggedIn: true });
+    assert.equal(server.state.loggedIn, true);
+    assert.ok(fs.existsSync(path.join(userDataDir, 'amazon-session.enc.json')));
+  });
+
+  it('login waits for a one-time code and submit_login_code finishes it', async () => {
+    server.state.loggedIn = false;
+    server.state.twoFactor = true;
+
+    const started = await login.login();
+    assert.equal(started.success, true, started.error);
+    assert.equal(started.data.step, 'code');
+    assert.equal(server.state.loggedIn, false);
+
+    const wrongCode = await login.submitLoginCode({ code: '000000' });
+    assert.equal(wrongCode.data.step, 'code');
+    assert.match(wrongCode.message, /not valid/);
+
+    const finished = await login.submitLoginCode({ code: FIXTURE_LOGIN_CODE });
+    assert.equal(finished.success, true, finished.error);
+    assert.deepEqual(finished.data, { loggedIn: true });
+    assert.equal(server.state.loggedIn, true);
+
+    const nothingPending = await login.submitLoginCode({ code: FIXTURE_LOGIN_CODE });
+    assert.equal(nothingPending.success, false);
+    assert.match(nothingPending.error || '', /call login first/);
+  });
+
+  it('login stops on a rejected password', async () => {
+    server.state.loggedIn = false;
+    process.env.AMAZON_PASSWORD = 'wrong-password';
+    try {
+      const result = await login.login();
+
+      assert.equal(result.success, false);
+      assert.match(result.error || '', /password is incorrect/);
+    } finally {
+      process.env.AMAZON_PASSWORD = FIXTURE_PASSWORD;
+    }
+  });
+
+  it('searchProducts fails with a captcha code on a CAPTCHA page', async () => {
+    server.state.blocked = 'captcha';
+    const result = await amazon.searchProducts({ query: 'wireless mouse' });
+
+    assert.equal(result.success, false);
+    assert.equal(result.code, 'captcha');
+  });
+
+  it('getCart reports login_required when redirected to sign-in', async () => {
+    server.state.blocked = 'sign-in';
+    const result = await amazon.getCart();
+
+    assert.equal(result.success, false);
+    assert.equal(result.code, 'login_required');
+    assert.match(result.error || '', /\/ap\/signin/);
+  });
+
+  it('listOrders reports two_factor on a verification code prompt', async () => {
+    server.state.blocked = 'two-factor';
+    const result = await orders.listOrders({});
+
+    assert.equal(result.success, false);
+    assert.equal(result.code, 'two_factor');
+  });
+
+  it('getProductDetails reports dog_page on an error page', async () => {
+    server.state.blocked = 'dog-page';
+    const result = await amazon.getProductDetails('B0TEST0001');
+
+    assert.equal(result.success, false);
+    assert.equal(result.code, 'dog_page');
+  });
+
+  it('launching another profile restores and migrates its saved session', async () => {
+    const uk = profiles.getProfile('uk');
+    const cookie = {
+      name: 'session-id', value: 'uk-session', domain: '.amazon.co.uk', path: '/',
+      expires: Math.round(Date.now() / 1000) + 3600, secure: true,
+    };
+    // Plaintext from an earlier version, migrated to the encrypted store on launch
+    const [legacyFile] = sessionStore.legacySessionFiles(uk);
+    fs.mkdirSync(path.dirname(legacyFile), { recursive: true });
+    fs.writeFileSync(legacyFile, JSON.stringify([cookie]));
+
+    const cookies = await profiles.withProfile('uk', async () => {
+      const page = await browser.getPage();
+      return page.cookies('https://www.amazon.co.uk');
+    });
+
+    assert.deepEqual(cookies.map(c => [c.name, c.value]), [['session-id', 'uk-session']]);
+    assert.ok(!fs.existsSync(legacyFile));
+    assert.deepEqual(await sessionStore.getSessionStore(uk).load(), [cookie]);
+    assert.deepEqual(browser.getLaunchedProfiles().map(p => p.name), ['default', 'uk']);
+  });
+});
+
+describe('scrubHtml', () => {
+  it('removes personal data, scripts and live links', () => {
+    const html = [
+      '<script>var customerId = "A1B2C3";</script>',
+      '<span id="nav-link-accountList-nav-line-1">Hello, Jane</span>',
+      '<span id="glow-ingress-line2">Springfield 97477</span>',
+      '<p>Order # 113-1234567-7654321 for jane.doe@example.org</p>',
+      '<input type="hidden" name="anti-csrftoken-a2z" value="secret">',
+      '<a href="https://www.amazon.com/dp/B0TEST0001" onclick="track()">Mouse</a>',
+    ].join('\n');
+
+    const scrubbed = scrubHtml(html);
+
+    assert.doesNotMatch(scrubbed, /customerId|Jane|Springfield|1234567|jane\.doe|secret|track\(\)/);
+    assert.match(scrubbed, /Hello, Test/);
+    assert.match(scrubbed, /href="\/dp\/B0TEST0001"/);
+  });
+
+  it('leaves the signed-out greeting alone', () => {
+    assert.match(scrubHtml('<span>Hello, sign in</span>'), /Hello, sign in/);
+  });
+});
@@ -0,0 +1,96 @@
+import { after, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  EncryptedFileSessionStore,
+  SerializedCookie,
+  SessionIntegrityError,
+  migrateLegacySession,
+} from '../src/session-store';
+
+const COOKIES: SerializedCookie[] = [
+  {
+    name: 'session-token',
+    value: 'secret-token-value',
+    domain: '.amazon.com',
+    path: '/',
+    expires: Date.now() / 1000 + 3600,
+    httpOnly: true,
+    secure: true,
+  },
+];
+
+describe('EncryptedFileSessionStore', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'amazon-mcp-session-'));
+  const key = crypto.randomBytes(32);
+  let fileCount = 0;
+
+  function newStore(storeKey = key) {
+    return new EncryptedFileSessionStore(path.join(dir, `session-${fileCount++}.json`), () => storeKey);
+  }
+
+  after(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('round-trips cookies without writing them in plaintext', async () => {
+    const store = newStore();
+    await store.save(COOKIES);
+
+    assert.doesNotMatch(fs.readFileSync(store.location, 'utf-8'), /secret-token-value/);
+    assert.deepEqual(await store.load(), COOKIES);
+    if (process.platform !== 'win32') {
+      assert.equal(fs.statSync(store.location).mode & 0o777, 0o600);
+    }
+  });
+
+  it('returns null when nothing has been saved', async () => {
+    assert.equal(await newStore().load(), null);
+  });
+
+  it('rejects a modified file', async () => {
+    const store = newStore();
+    await store.save(COOKIES);
+
+    const envelope = JSON.parse(fs.readFileSync(store.location, 'utf-8'));
+    const data = Buffer.from(envelope.data, 'base64');
+    data[0] ^= 0xff;
+    envelope.data = data.toString('base64');
+    fs.writeFileSync(store.location, JSON.stringify(envelope));
+
+    await assert.rejects(store.load(), SessionIntegrityError);
+  });
+
+  it('rejects a file encrypted with another key', async () => {
+    const store = newStore();
+    await store.save(COOKIES);
+
+    const otherKey = new EncryptedFileSessionStore(store.location, () => crypto.randomBytes(32));
+    await assert.rejects(otherKey.load(), /wrong key or the file was modified/);
+  });
+
+  it('migrates and deletes a plaintext cookie file', async () => {
+    const legacyFile = path.join(dir, 'amazon-session-cookies.json');
+    fs.writeFileSync(legacyFile, JSON.stringify(COOKIES));
+    const store = newStore();
+
+    assert.equal(await migrateLegacySession(store, [legacyFile]), 1);
+    assert.equal(fs.existsSync(legacyFile), false);
+    assert.deepEqual(await store.load(), COOKIES);
+  });
+
+  it('skips a truncated plaintext file and migrates the next one', async () => {
+    const corruptFile = path.join(dir, 'truncated-cookies.json');
+    const legacyFile = path.join(dir, 'legacy-cookies.json');
+    fs.writeFileSync(corruptFile, JSON.stringify(COOKIES).slice(0, 40));
+    fs.writeFileSync(legacyFile, JSON.stringify(COOKIES));
+    const store = newStore();
+
+    assert.equal(await migrateLegacySession(store, [corruptFile, legacyFile]), 1);
+    assert.equal(fs.existsSync(legacyFile), false);
+    assert.deepEqual(await store.load(), COOKIES);
+  });
+});
@@ -0,0 +1,19 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseFrequency } from '../src/subscriptions';
+
+describe('parseFrequency', () => {
+  it('reads counts and units from labels and arguments', () => {
+    assert.deepEqual(parseFrequency('Every 2 months'), { count: 2, unit: 'month' });
+    assert.deepEqual(parseFrequency('Every 1 month (Most common)'), { count: 1, unit: 'month' });
+    assert.deepEqual(parseFrequency('3 weeks'), { count: 3, unit: 'week' });
+  });
+
+  it('treats a bare unit as one', () => {
+    assert.deepEqual(parseFrequency('every month'), { count: 1, unit: 'month' });
+  });
+
+  it('returns null for text without a frequency', () => {
+    assert.equal(parseFrequency('Monthly-ish'), null);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ErrorCode, McpError } from '@modelcontextprotocol/sdk/types.js';
+import { TOOL_DEFINITIONS, callTool } from '../src/tools';
+import { validateArguments } from '../src/validation';
+
+function schemaFor(name: string) {
+  const tool = TOOL_DEFINITIONS.find(t => t.name === name);
+  assert.ok(tool, `no tool named ${name}`);
+  return tool.inputSchema;
+}
+
+describe('validateArguments', () => {
+  it('coerces simple types and applies defaults', () => {
+    const { value, errors } = validateArguments(schemaFor('search_amazon'), {
+      query: 'usb cable',
+      limit: '10',
+      primeOnly: 'true',
+    });
+
+    assert.deepEqual(errors, []);
+    assert.deepEqual(value, { query: 'usb cable', limit: 10, page: 1, primeOnly: true });
+  });
+
+  it('lists every failing field', () => {
+    const { errors } = validateArguments(schemaFor('search_amazon'), {
+      limit: 'lots',
+      page: 0,
+      sort: 'cheapest',
+    });
+
+    assert.deepEqual(errors, [
+      'query: is required',
+      'limit: must be a number, got string',
+      'page: must be at least 1',
+      'sort: must be one of "relevance", "price_asc", "price_desc", "rating", "newest"',
+    ]);
+  });
+
+  it('rejects fractional quantities and malformed ASINs', () => {
+    const { errors } = validateArguments(schemaFor('update_cart_quantity'), { asin: 'not-an-asin', quantity: 1.5 });
+
+    assert.equal(errors.length, 2);
+    assert.match(errors[0], /^asin: must match/);
+    assert.equal(errors[1], 'quantity: must be an integer');
+  });
+
+  it('validates nested array items and defaults their quantities', () => {
+    const valid = validateArguments(schemaFor('buy_again'), { add: [{ asin: 'B0TEST0005' }, { asin: 'B0TEST0006', quantity: '3' }] });
+    assert.deepEqual(valid.errors, []);
+    assert.deepEqual(valid.value.add, [{ asin: 'B0TEST0005', quantity: 1 }, { asin: 'B0TEST0006', quantity: 3 }]);
+
+    const invalid = validateArguments(schemaFor('buy_again'), { add: [{ quantity: 2 }, { asin: 'B0TEST0005', qty: 2 }] });
+    assert.deepEqual(invalid.errors, ['add[0].asin: is required', 'add[1].qty: is not a recognized argument']);
+  });
+
+  it('validates every entry of a free-form map', () => {
+    const valid = validateArguments(schemaFor('add_to_cart'), { asin: 'B0TEST0010', variation: { size: 10, color: 'Blue' } });
+    assert.deepEqual(valid.errors, []);
+    assert.deepEqual(valid.value.variation, { size: '10', color: 'Blue' });
+
+    const invalid = validateArguments(schemaFor('add_to_cart'), { asin: 'B0TEST0010', variation: { color: '' } });
+    assert.deepEqual(invalid.errors, ['variation.color: must not be empty']);
+  });
+});
+
+describe('callTool', () => {
+  it('rejects invalid arguments with an invalid params error', async () => {
+    await assert.rejects(
+      callTool('add_to_cart', { quantity: 2 }),
+      (error: unknown) => {
+        assert.ok(error instanceof McpError);
+        assert.equal(error.code, ErrorCode.InvalidParams);
+        assert.match(error.message, /either query or asin is required/);
+        return true;
+      },
+    );
+  });
+
+  it('runs cross-field checks on each list entry', async () => {
+    await assert.rejects(
+      callTool('add_items_to_cart', { items: [{ asin: 'B0TEST0001' }, { quantity: 2 }] }),
+      /items\[1\]: either query or asin is required/,
+    );
+  });
+
+  it('rejects unknown profiles', async () => {
+    await assert.rejects(
+      callTool('get_policy', { profile: 'nobody' }),
+      (error: unknown) => {
+        assert.ok(error instanceof McpError);
+        assert.equal(error.code, ErrorCode.InvalidParams);
+        assert.match(error.message, /profile: unknown profile "nobody"/);
+        return true;
+      },
+    );
+  });
+
+  it('runs profile tools without the browser', async () => {
+    const result = await callTool('list_profiles');
+
+    assert.equal(result.success, true);
+    assert.deepEqual(result.data.map((profile: { name: string; active: boolean }) => [profile.name, profile.active]), [['default', true]]);
+  });
+
+  it('rejects unknown tools', async () => {
+    await assert.rejects(callTool('buy_everything'), /Unknown tool: buy_everything/);
+  });
+});